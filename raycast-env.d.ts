@@ -8,21 +8,63 @@
 /* eslint-disable @typescript-eslint/ban-types */
 
 type ExtensionPreferences = {
-  /** Example Setting - An example preference setting */
-  "exampleSetting": string,
-  /** Enable Feature - Enable or disable a feature */
-  "enableFeature": boolean
+  /** Work Duration (minutes) - Duration of work intervals in minutes */
+  "workDuration": string,
+  /** Short Break Duration (minutes) - Duration of short breaks in minutes */
+  "shortBreakDuration": string,
+  /** Long Break Duration (minutes) - Duration of long breaks in minutes */
+  "longBreakDuration": string,
+  /** Long Break Interval - Number of work sessions before a long break */
+  "longBreakInterval": string,
+  /** Notification Sounds - Play the sounds configured for each session type; when off, notifications stay silent */
+  "enableNotifications": boolean,
+  /** Auto-start Breaks - Automatically start break timers after work sessions */
+  "autoStartBreaks": boolean,
+  /** Auto-start Work - Automatically start work timers after breaks */
+  "autoStartWork": boolean,
+  /** Session Reflection - Ask what was accomplished and how focused you were after each completed work session */
+  "reflectAfterWork": boolean,
+  /** Idle Detection - Pause a running work session after this long without keyboard or mouse input, and ask how the time away should count */
+  "idleThreshold": "0" | "2" | "5" | "10" | "15" | "30",
+  /** Time Tracker URL - Base URL of the time-tracking API that completed work sessions are sent to, e.g. http://localhost:4010/api; leave empty to turn syncing off */
+  "syncBaseUrl": string,
+  /** Time Tracker API Token - Sent as a bearer token with every time entry */
+  "syncApiToken"?: string
 }
 
 /** Preferences accessible in all the extension's commands */
 declare type Preferences = ExtensionPreferences
 
 declare namespace Preferences {
-  /** Preferences accessible in the `main-command` command */
-  export type MainCommand = ExtensionPreferences & {}
+  /** Preferences accessible in the `pomodoro-timer` command */
+  export type PomodoroTimer = ExtensionPreferences & {}
+  /** Preferences accessible in the `timer-history` command */
+  export type TimerHistory = ExtensionPreferences & {}
+  /** Preferences accessible in the `manage-tasks` command */
+  export type ManageTasks = ExtensionPreferences & {}
+  /** Preferences accessible in the `quick-start` command */
+  export type QuickStart = ExtensionPreferences & {}
+  /** Preferences accessible in the `menu-bar-timer` command */
+  export type MenuBarTimer = ExtensionPreferences & {}
 }
 
 declare namespace Arguments {
-  /** Arguments passed to the `main-command` command */
-  export type MainCommand = {}
+  /** Arguments passed to the `pomodoro-timer` command */
+  export type PomodoroTimer = {}
+  /** Arguments passed to the `timer-history` command */
+  export type TimerHistory = {}
+  /** Arguments passed to the `manage-tasks` command */
+  export type ManageTasks = {}
+  /** Arguments passed to the `quick-start` command */
+  export type QuickStart = {
+  /** Session Type */
+  "type": "work" | "short_break" | "long_break",
+  /** Task @project */
+  "task": string,
+  /** Minutes */
+  "duration": string
 }
+  /** Arguments passed to the `menu-bar-timer` command */
+  export type MenuBarTimer = {}
+}
+
@@ -0,0 +1,68 @@
+/**
+ * Local stand-in for a time-tracking API, for trying out the time tracker sync
+ *
+ *   node scripts/mock-time-tracker.mjs
+ *
+ * Then set the Time Tracker URL preference to http://localhost:4010/api and the token to "dev-token".
+ * Environment: PORT (4010), TOKEN (dev-token), FAIL_RATE (0 to 1, share of requests answered with 503)
+ */
+
+import { createServer } from "node:http"
+
+const port = Number(process.env.PORT ?? 4010)
+const token = process.env.TOKEN ?? "dev-token"
+const failRate = Number(process.env.FAIL_RATE ?? 0)
+
+const entries = []
+const byIdempotencyKey = new Map()
+
+function send(response, status, body) {
+    response.writeHead(status, { "Content-Type": "application/json" })
+    response.end(JSON.stringify(body))
+}
+
+const server = createServer((request, response) => {
+    const url = new URL(request.url ?? "/", `http://localhost:${port}`)
+    if (!url.pathname.endsWith("/time-entries")) {
+        return send(response, 404, { error: "Not found" })
+    }
+    if (request.headers.authorization !== `Bearer ${token}`) {
+        return send(response, 401, { error: "Invalid API token" })
+    }
+    if (request.method === "GET") {
+        return send(response, 200, entries)
+    }
+    if (request.method !== "POST") {
+        return send(response, 405, { error: "Method not allowed" })
+    }
+    if (Math.random() < failRate) {
+        return send(response, 503, { error: "Try again later" })
+    }
+
+    let body = ""
+    request.on("data", (chunk) => (body += chunk))
+    request.on("end", () => {
+        const key = request.headers["idempotency-key"]
+        if (key && byIdempotencyKey.has(key)) {
+            return send(response, 200, byIdempotencyKey.get(key))
+        }
+
+        let entry
+        try {
+            entry = JSON.parse(body)
+        } catch {
+            return send(response, 400, { error: "Body is not JSON" })
+        }
+        if (!entry.description || !entry.start || !entry.end) {
+            return send(response, 422, { error: "description, start and end are required" })
+        }
+
+        const created = { id: entries.length + 1, ...entry }
+        entries.push(created)
+        if (key) byIdempotencyKey.set(key, created)
+        console.log(`Time entry ${created.id}: ${entry.description} (${entry.start} – ${entry.end})`)
+        send(response, 201, created)
+    })
+})
+
+server.listen(port, () => console.log(`Mock time tracker listening on http://localhost:${port}/api/time-entries`))
@@ -0,0 +1,48 @@
+import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api"
+import { useState } from "react"
+import { useFocusStore } from "../store/focus-store"
+import { normalizeAppName } from "../utils/focus"
+
+/**
+ * Form for blocking an app by its process name, for apps that are not running right now
+ */
+export function BlockedAppForm() {
+    const { pop } = useNavigation()
+    const blockApp = useFocusStore((state) => state.blockApp)
+    const [nameError, setNameError] = useState<string | undefined>()
+
+    function handleSubmit(values: { name: string }) {
+        const name = normalizeAppName(values.name)
+        if (!name) {
+            setNameError("Process name is required")
+            return
+        }
+        if (useFocusStore.getState().blockedApps.includes(name)) {
+            setNameError(`${name} is already blocked`)
+            return
+        }
+
+        blockApp(name)
+        pop()
+    }
+
+    return (
+        <Form
+            navigationTitle="Block App"
+            actions={
+                <ActionPanel>
+                    <Action.SubmitForm title="Block App" icon={Icon.Check} onSubmit={handleSubmit} />
+                </ActionPanel>
+            }
+        >
+            <Form.TextField
+                id="name"
+                title="Process Name"
+                placeholder="slack.exe"
+                info="As shown in Task Manager's Details tab; .exe is added when left out"
+                error={nameError}
+                onChange={() => setNameError(undefined)}
+            />
+        </Form>
+    )
+}
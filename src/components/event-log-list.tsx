@@ -0,0 +1,124 @@
+import { Action, ActionPanel, Alert, confirmAlert, Icon, Image, List, showToast, Toast } from "@raycast/api"
+import { usePromise } from "@raycast/utils"
+import { format, isToday, isYesterday, parse } from "date-fns"
+import { useState } from "react"
+import { getLogDays, readHistoryFromLog, readLogDay, restoreHistory } from "../store/event-log"
+import { usePomodoroStore } from "../store/pomodoro-store"
+import { LogEntryKind, TimerLogEntry } from "../types/event-log"
+import { getLogEntryLabel } from "../utils/event-log"
+import { formatClockTime, getSessionTypeIcon } from "../utils/timer-format"
+
+function formatLogDay(day: string): string {
+    const date = parse(day, "yyyy-MM-dd", new Date())
+    if (isToday(date)) return "Today"
+    if (isYesterday(date)) return "Yesterday"
+    return format(date, "EEEE, MMMM d, yyyy")
+}
+
+function getLogEntryIcon(entry: TimerLogEntry): Image.ImageLike {
+    switch (entry.kind) {
+        case LogEntryKind.SESSION:
+        case LogEntryKind.RECORD:
+            return getSessionTypeIcon(entry.session.type)
+        case LogEntryKind.DELETE:
+            return Icon.Trash
+        case LogEntryKind.CONFIG:
+            return Icon.Gear
+    }
+}
+
+/**
+ * Raw timer event log of one day, for finding out what happened to the history
+ */
+export function EventLogList() {
+    const historyCount = usePomodoroStore((state) => state.history.length)
+    const { data: days = [], isLoading: isLoadingDays } = usePromise(getLogDays)
+    const [day, setDay] = useState<string>()
+    const selectedDay = day ?? days[0]
+    const {
+        data: entries = [],
+        isLoading: isLoadingEntries,
+        revalidate
+    } = usePromise(readLogDay, [selectedDay ?? ""], { execute: !!selectedDay })
+
+    async function handleRebuild() {
+        const rebuilt = await readHistoryFromLog()
+        const confirmed = await confirmAlert({
+            title: "Rebuild History",
+            message: `Replace the ${historyCount} recorded sessions with the ${rebuilt.length} found in the event log? Statistics are recalculated from them.`,
+            primaryAction: {
+                title: "Rebuild",
+                style: Alert.ActionStyle.Destructive
+            }
+        })
+
+        if (!confirmed) return
+
+        await restoreHistory(rebuilt)
+        await showToast({ style: Toast.Style.Success, title: "History rebuilt", message: `${rebuilt.length} sessions` })
+    }
+
+    const logActions = (
+        <ActionPanel.Section>
+            <Action
+                title="Rebuild History from Log"
+                icon={Icon.ArrowCounterClockwise}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+                onAction={handleRebuild}
+            />
+            <Action
+                title="Refresh"
+                icon={Icon.ArrowClockwise}
+                shortcut={{ modifiers: ["cmd"], key: "r" }}
+                onAction={revalidate}
+            />
+        </ActionPanel.Section>
+    )
+
+    return (
+        <List
+            isLoading={isLoadingDays || isLoadingEntries}
+            isShowingDetail={entries.length > 0}
+            navigationTitle="Event Log"
+            searchBarPlaceholder="Search events..."
+            searchBarAccessory={
+                <List.Dropdown tooltip="Day" value={selectedDay} onChange={setDay}>
+                    {days.map((logDay) => (
+                        <List.Dropdown.Item key={logDay} title={formatLogDay(logDay)} value={logDay} />
+                    ))}
+                </List.Dropdown>
+            }
+        >
+            {entries.map((entry) => (
+                <List.Item
+                    key={entry.id}
+                    title={getLogEntryLabel(entry)}
+                    icon={getLogEntryIcon(entry)}
+                    accessories={[{ text: formatClockTime(entry.at) }]}
+                    detail={<List.Item.Detail markdown={`\`\`\`json\n${JSON.stringify(entry, null, 2)}\n\`\`\``} />}
+                    actions={
+                        <ActionPanel>
+                            <ActionPanel.Section>
+                                <Action.CopyToClipboard title="Copy Entry" content={JSON.stringify(entry, null, 2)} />
+                                <Action.CopyToClipboard
+                                    title="Copy Day"
+                                    content={JSON.stringify(entries, null, 2)}
+                                    shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+                                />
+                            </ActionPanel.Section>
+                            {logActions}
+                        </ActionPanel>
+                    }
+                />
+            ))}
+            {!isLoadingDays && entries.length === 0 && (
+                <List.EmptyView
+                    title="No events logged"
+                    description="Starting, pausing and ending sessions, history edits and settings changes are logged here."
+                    icon={Icon.List}
+                    actions={<ActionPanel>{logActions}</ActionPanel>}
+                />
+            )}
+        </List>
+    )
+}
@@ -0,0 +1,127 @@
+import { Action, ActionPanel, Clipboard, Form, Icon, showToast, Toast } from "@raycast/api"
+import { promises as fs } from "fs"
+import { join } from "path"
+import { SessionType, TimerSession } from "../types/timer"
+import { exportSessions, ExportFormat, filterSessions, getExportFileName } from "../utils/export"
+import { getSessionTypeLabel } from "../utils/timer-format"
+import { getWindowsPaths, openInExplorer } from "../utils/windows-helpers"
+
+const ALL = ""
+
+interface FormValues {
+    format: ExportFormat
+    from: Date | null
+    to: Date | null
+    projectName: string
+    type: string
+    folder: "documents" | "desktop"
+}
+
+/**
+ * Apply the form filters and serialize the matching sessions
+ * Shows a failure toast and returns undefined when nothing matches
+ */
+async function buildExport(history: TimerSession[], values: FormValues): Promise<string | undefined> {
+    const sessions = filterSessions(history, {
+        from: values.from ?? undefined,
+        to: values.to ?? undefined,
+        projectName: values.projectName || undefined,
+        type: (values.type as SessionType) || undefined
+    })
+
+    if (sessions.length === 0) {
+        await showToast({
+            style: Toast.Style.Failure,
+            title: "Nothing to export",
+            message: "No sessions match the selected filters"
+        })
+        return undefined
+    }
+
+    return exportSessions(sessions, values.format)
+}
+
+/**
+ * Form for exporting session history to a file or the clipboard
+ */
+export function ExportForm({ history }: { history: TimerSession[] }) {
+    const projects = Array.from(
+        new Set(history.map((session) => session.projectName).filter((name): name is string => !!name))
+    ).sort()
+
+    async function handleSave(values: FormValues) {
+        const content = await buildExport(history, values)
+        if (content === undefined) return
+
+        const filePath = join(getWindowsPaths()[values.folder], getExportFileName(values.format))
+        try {
+            await fs.writeFile(filePath, content, "utf8")
+            await showToast({
+                style: Toast.Style.Success,
+                title: "History exported",
+                message: filePath,
+                primaryAction: {
+                    title: "Show in Explorer",
+                    onAction: () => openInExplorer(filePath)
+                }
+            })
+        } catch (error) {
+            await showToast({
+                style: Toast.Style.Failure,
+                title: "Export failed",
+                message: error instanceof Error ? error.message : "Unknown error occurred"
+            })
+        }
+    }
+
+    async function handleCopy(values: FormValues) {
+        const content = await buildExport(history, values)
+        if (content === undefined) return
+
+        await Clipboard.copy(content)
+        await showToast({ style: Toast.Style.Success, title: "History copied to clipboard" })
+    }
+
+    return (
+        <Form
+            navigationTitle="Export History"
+            actions={
+                <ActionPanel>
+                    <Action.SubmitForm title="Save to File" icon={Icon.Download} onSubmit={handleSave} />
+                    <Action.SubmitForm
+                        title="Copy to Clipboard"
+                        icon={Icon.Clipboard}
+                        shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+                        onSubmit={handleCopy}
+                    />
+                </ActionPanel>
+            }
+        >
+            <Form.Dropdown id="format" title="Format" defaultValue={ExportFormat.CSV}>
+                <Form.Dropdown.Item value={ExportFormat.CSV} title="CSV (spreadsheets)" />
+                <Form.Dropdown.Item value={ExportFormat.JSON} title="JSON" />
+                <Form.Dropdown.Item value={ExportFormat.ICS} title="iCalendar (.ics, completed sessions)" />
+            </Form.Dropdown>
+            <Form.Separator />
+            <Form.DatePicker id="from" title="From" type={Form.DatePicker.Type.Date} />
+            <Form.DatePicker id="to" title="To" type={Form.DatePicker.Type.Date} />
+            <Form.Dropdown id="projectName" title="Project" defaultValue={ALL}>
+                <Form.Dropdown.Item value={ALL} title="All Projects" />
+                {projects.map((project) => (
+                    <Form.Dropdown.Item key={project} value={project} title={project} icon={Icon.Folder} />
+                ))}
+            </Form.Dropdown>
+            <Form.Dropdown id="type" title="Session Type" defaultValue={ALL}>
+                <Form.Dropdown.Item value={ALL} title="All Types" />
+                {Object.values(SessionType).map((type) => (
+                    <Form.Dropdown.Item key={type} value={type} title={getSessionTypeLabel(type)} />
+                ))}
+            </Form.Dropdown>
+            <Form.Separator />
+            <Form.Dropdown id="folder" title="Save To" defaultValue="documents">
+                <Form.Dropdown.Item value="documents" title="Documents" icon={Icon.Document} />
+                <Form.Dropdown.Item value="desktop" title="Desktop" icon={Icon.Desktop} />
+            </Form.Dropdown>
+        </Form>
+    )
+}
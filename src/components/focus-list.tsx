@@ -0,0 +1,103 @@
+import { Action, ActionPanel, Color, Icon, List } from "@raycast/api"
+import { usePromise } from "@raycast/utils"
+import { closeBlockedApps, useFocusHydration, useFocusStore } from "../store/focus-store"
+import { findBlockedProcesses, getRunningAppNames } from "../utils/focus"
+import { getProcessList } from "../utils/windows-helpers"
+import { BlockedAppForm } from "./blocked-app-form"
+
+/**
+ * Focus mode settings and the blocklist of apps closed during work sessions
+ */
+export function FocusList() {
+    const hydrated = useFocusHydration()
+    const { enabled, blockedApps, closeAutomatically } = useFocusStore()
+    const { setFocusEnabled, setCloseAutomatically, blockApp, unblockApp } = useFocusStore.getState()
+    const { data: processes = [], isLoading, revalidate } = usePromise(getProcessList)
+
+    const runningBlocked = findBlockedProcesses(processes, blockedApps)
+    const unblockedApps = getRunningAppNames(processes).filter((name) => !blockedApps.includes(name.toLowerCase()))
+
+    const settingsActions = (
+        <ActionPanel.Section>
+            <Action
+                title={enabled ? "Turn Focus Mode Off" : "Turn Focus Mode On"}
+                icon={enabled ? Icon.EyeDisabled : Icon.Eye}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+                onAction={() => setFocusEnabled(!enabled)}
+            />
+            <Action
+                title={closeAutomatically ? "Ask Before Closing Apps" : "Close Apps Without Asking"}
+                icon={closeAutomatically ? Icon.QuestionMarkCircle : Icon.XMarkCircle}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+                onAction={() => setCloseAutomatically(!closeAutomatically)}
+            />
+            <Action.Push
+                title="Block App by Name"
+                icon={Icon.PlusCircle}
+                shortcut={{ modifiers: ["cmd"], key: "n" }}
+                target={<BlockedAppForm />}
+            />
+            <Action
+                title="Refresh Running Apps"
+                icon={Icon.ArrowClockwise}
+                shortcut={{ modifiers: ["cmd"], key: "r" }}
+                onAction={revalidate}
+            />
+        </ActionPanel.Section>
+    )
+
+    return (
+        <List isLoading={!hydrated || isLoading} navigationTitle="Focus Mode" searchBarPlaceholder="Search apps...">
+            <List.Section
+                title="Blocked Apps"
+                subtitle={`Focus mode ${enabled ? "on" : "off"}${enabled && closeAutomatically ? " · closes without asking" : ""}`}
+            >
+                {blockedApps.map((app) => {
+                    const running = runningBlocked.find((process) => process.name.toLowerCase() === app)
+                    return (
+                        <List.Item
+                            key={app}
+                            title={app}
+                            icon={{ source: Icon.MinusCircle, tintColor: enabled ? Color.Red : Color.SecondaryText }}
+                            accessories={running ? [{ tag: { value: "Running", color: Color.Orange } }] : []}
+                            actions={
+                                <ActionPanel>
+                                    {running && (
+                                        <Action
+                                            title="Close App"
+                                            icon={Icon.XMarkCircle}
+                                            onAction={() => closeBlockedApps([running]).then(revalidate)}
+                                        />
+                                    )}
+                                    <Action
+                                        title="Unblock App"
+                                        icon={Icon.Trash}
+                                        style={Action.Style.Destructive}
+                                        shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                                        onAction={() => unblockApp(app)}
+                                    />
+                                    {settingsActions}
+                                </ActionPanel>
+                            }
+                        />
+                    )
+                })}
+            </List.Section>
+            <List.Section title="Running Apps">
+                {unblockedApps.map((name) => (
+                    <List.Item
+                        key={name}
+                        title={name}
+                        icon={Icon.AppWindow}
+                        actions={
+                            <ActionPanel>
+                                <Action title="Block App" icon={Icon.MinusCircle} onAction={() => blockApp(name)} />
+                                {settingsActions}
+                            </ActionPanel>
+                        }
+                    />
+                ))}
+            </List.Section>
+        </List>
+    )
+}
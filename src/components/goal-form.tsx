@@ -0,0 +1,84 @@
+import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api"
+import { useState } from "react"
+import { useGoalStore } from "../store/goal-store"
+import { useTaskHydration, useTaskStore } from "../store/task-store"
+import { FocusGoal, GoalMetric, GoalPeriod } from "../types/goal"
+
+const ALL_PROJECTS = ""
+const MAX_TARGET = 10000
+
+interface FormValues {
+    period: string
+    metric: string
+    target: string
+    projectId: string
+}
+
+/**
+ * Form for creating or editing a daily or weekly focus goal
+ */
+export function GoalForm({ goal }: { goal?: FocusGoal }) {
+    const { pop } = useNavigation()
+    const hydrated = useTaskHydration()
+    const projects = useTaskStore((state) => state.projects)
+    const saveGoal = useGoalStore((state) => state.saveGoal)
+    const [targetError, setTargetError] = useState<string | undefined>()
+
+    const selectableProjects = projects.filter((project) => !project.archived || project.id === goal?.projectId)
+
+    function handleSubmit(values: FormValues) {
+        const target = Number(values.target.trim())
+        if (!Number.isInteger(target) || target < 1 || target > MAX_TARGET) {
+            setTargetError(`Enter a whole number between 1 and ${MAX_TARGET}`)
+            return
+        }
+
+        saveGoal({
+            id: goal?.id,
+            period: values.period as GoalPeriod,
+            metric: values.metric as GoalMetric,
+            target,
+            projectId: values.projectId || undefined
+        })
+        pop()
+    }
+
+    return (
+        <Form
+            isLoading={!hydrated}
+            navigationTitle={goal ? "Edit Goal" : "Create Goal"}
+            actions={
+                <ActionPanel>
+                    <Action.SubmitForm
+                        title={goal ? "Save Goal" : "Create Goal"}
+                        icon={Icon.Check}
+                        onSubmit={handleSubmit}
+                    />
+                </ActionPanel>
+            }
+        >
+            <Form.Dropdown id="period" title="Period" defaultValue={goal?.period ?? GoalPeriod.DAILY}>
+                <Form.Dropdown.Item value={GoalPeriod.DAILY} title="Daily" icon={Icon.Sun} />
+                <Form.Dropdown.Item value={GoalPeriod.WEEKLY} title="Weekly" icon={Icon.Calendar} />
+            </Form.Dropdown>
+            <Form.Dropdown id="metric" title="Measure" defaultValue={goal?.metric ?? GoalMetric.SESSIONS}>
+                <Form.Dropdown.Item value={GoalMetric.SESSIONS} title="Completed Pomodoros" icon={Icon.CheckCircle} />
+                <Form.Dropdown.Item value={GoalMetric.MINUTES} title="Minutes of Focus" icon={Icon.Clock} />
+            </Form.Dropdown>
+            <Form.TextField
+                id="target"
+                title="Target"
+                placeholder="8"
+                defaultValue={goal?.target.toString()}
+                error={targetError}
+                onChange={() => setTargetError(undefined)}
+            />
+            <Form.Dropdown id="projectId" title="Project" defaultValue={goal?.projectId ?? ALL_PROJECTS}>
+                <Form.Dropdown.Item value={ALL_PROJECTS} title="All Projects" icon={Icon.Globe} />
+                {selectableProjects.map((project) => (
+                    <Form.Dropdown.Item key={project.id} value={project.id} title={project.name} icon={Icon.Folder} />
+                ))}
+            </Form.Dropdown>
+        </Form>
+    )
+}
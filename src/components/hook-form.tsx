@@ -0,0 +1,127 @@
+import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api"
+import { useState } from "react"
+import { useHookStore } from "../store/hook-store"
+import { LifecycleHook } from "../types/hook"
+import { SessionEvent, SessionType } from "../types/timer"
+import { DEFAULT_HOOK_TIMEOUT, getSessionEventLabel, HOOK_PLACEHOLDERS, MAX_HOOK_TIMEOUT } from "../utils/hooks"
+import { getSessionTypeIcon, getSessionTypeLabel } from "../utils/timer-format"
+import { parseCustomCommand } from "../utils/windows-helpers"
+
+interface FormValues {
+    name: string
+    event: string
+    sessionTypes: string[]
+    command: string
+    timeout: string
+    enabled: boolean
+}
+
+/**
+ * Form for creating or editing a lifecycle hook
+ */
+export function HookForm({ hook }: { hook?: LifecycleHook }) {
+    const { pop } = useNavigation()
+    const saveHook = useHookStore((state) => state.saveHook)
+    const [errors, setErrors] = useState<Partial<Record<keyof FormValues, string>>>({})
+
+    function handleSubmit(values: FormValues) {
+        const name = values.name.trim()
+        const command = values.command.trim()
+        const timeout = Number(values.timeout.trim())
+
+        const nextErrors: Partial<Record<keyof FormValues, string>> = {}
+        if (!name) {
+            nextErrors.name = "Hook name is required"
+        }
+        try {
+            parseCustomCommand(command, {})
+        } catch {
+            nextErrors.command = "Enter the command to run"
+        }
+        if (!Number.isInteger(timeout) || timeout < 1 || timeout > MAX_HOOK_TIMEOUT) {
+            nextErrors.timeout = `Enter a whole number between 1 and ${MAX_HOOK_TIMEOUT}`
+        }
+        if (Object.keys(nextErrors).length > 0) {
+            setErrors(nextErrors)
+            return
+        }
+
+        saveHook({
+            id: hook?.id,
+            name,
+            event: values.event as SessionEvent,
+            sessionTypes: values.sessionTypes as SessionType[],
+            command,
+            timeout,
+            enabled: values.enabled
+        })
+        pop()
+    }
+
+    return (
+        <Form
+            navigationTitle={hook ? "Edit Hook" : "Create Hook"}
+            actions={
+                <ActionPanel>
+                    <Action.SubmitForm
+                        title={hook ? "Save Hook" : "Create Hook"}
+                        icon={Icon.Check}
+                        onSubmit={handleSubmit}
+                    />
+                </ActionPanel>
+            }
+        >
+            <Form.TextField
+                id="name"
+                title="Name"
+                placeholder="Set chat status"
+                defaultValue={hook?.name}
+                error={errors.name}
+                onChange={() => setErrors((current) => ({ ...current, name: undefined }))}
+            />
+            <Form.Dropdown id="event" title="When" defaultValue={hook?.event ?? SessionEvent.START}>
+                {Object.values(SessionEvent).map((event) => (
+                    <Form.Dropdown.Item key={event} value={event} title={`Session ${getSessionEventLabel(event)}s`} />
+                ))}
+            </Form.Dropdown>
+            <Form.TagPicker
+                id="sessionTypes"
+                title="Session Types"
+                info="Leave empty to run for every session type"
+                defaultValue={hook?.sessionTypes ?? [SessionType.WORK]}
+            >
+                {Object.values(SessionType).map((type) => (
+                    <Form.TagPicker.Item
+                        key={type}
+                        value={type}
+                        title={getSessionTypeLabel(type)}
+                        icon={getSessionTypeIcon(type)}
+                    />
+                ))}
+            </Form.TagPicker>
+            <Form.TextField
+                id="command"
+                title="Command"
+                placeholder='powershell -File "C:\Scripts\status.ps1" {task}'
+                info="The executable and its arguments; quote arguments that contain spaces"
+                defaultValue={hook?.command}
+                error={errors.command}
+                onChange={() => setErrors((current) => ({ ...current, command: undefined }))}
+            />
+            <Form.TextField
+                id="timeout"
+                title="Timeout (seconds)"
+                defaultValue={(hook?.timeout ?? DEFAULT_HOOK_TIMEOUT).toString()}
+                error={errors.timeout}
+                onChange={() => setErrors((current) => ({ ...current, timeout: undefined }))}
+            />
+            <Form.Checkbox id="enabled" label="Enabled" defaultValue={hook?.enabled ?? true} />
+            <Form.Description
+                title="Placeholders"
+                text={HOOK_PLACEHOLDERS.map(({ placeholder, description }) => `${placeholder}  ${description}`).join(
+                    "\n"
+                )}
+            />
+        </Form>
+    )
+}
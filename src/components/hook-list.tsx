@@ -0,0 +1,138 @@
+import { Action, ActionPanel, Alert, Color, confirmAlert, Icon, List } from "@raycast/api"
+import { useHookHydration, useHookStore } from "../store/hook-store"
+import { LifecycleHook } from "../types/hook"
+import { getSessionEventLabel } from "../utils/hooks"
+import { formatClockTime, getSessionTypeLabel } from "../utils/timer-format"
+import { HookForm } from "./hook-form"
+
+/**
+ * Which sessions a hook runs for, e.g. "On start · Work"
+ */
+function describeHook(hook: LifecycleHook): string {
+    const types = hook.sessionTypes.length > 0 ? hook.sessionTypes.map(getSessionTypeLabel).join(", ") : "All sessions"
+    return `On ${getSessionEventLabel(hook.event).toLowerCase()} · ${types}`
+}
+
+/**
+ * Lifecycle hooks and the log of their recent runs
+ */
+export function HookList() {
+    const hydrated = useHookHydration()
+    const hooks = useHookStore((state) => state.hooks)
+    const runs = useHookStore((state) => state.runs)
+    const { setHookEnabled, deleteHook, clearRuns } = useHookStore.getState()
+
+    async function handleDelete(hook: LifecycleHook) {
+        const confirmed = await confirmAlert({
+            title: "Delete Hook",
+            message: `Are you sure you want to delete "${hook.name}"?`,
+            primaryAction: {
+                title: "Delete",
+                style: Alert.ActionStyle.Destructive
+            }
+        })
+
+        if (confirmed) {
+            deleteHook(hook.id)
+        }
+    }
+
+    const createAction = (
+        <Action.Push
+            title="Create Hook"
+            icon={Icon.PlusCircle}
+            shortcut={{ modifiers: ["cmd"], key: "n" }}
+            target={<HookForm />}
+        />
+    )
+
+    return (
+        <List isLoading={!hydrated} navigationTitle="Lifecycle Hooks">
+            <List.Section title="Hooks">
+                {hooks.map((hook) => (
+                    <List.Item
+                        key={hook.id}
+                        title={hook.name}
+                        subtitle={describeHook(hook)}
+                        icon={hook.enabled ? Icon.Bolt : Icon.BoltDisabled}
+                        accessories={[
+                            hook.enabled
+                                ? { tag: { value: "Enabled", color: Color.Green } }
+                                : { tag: { value: "Disabled", color: Color.SecondaryText } }
+                        ]}
+                        actions={
+                            <ActionPanel>
+                                <ActionPanel.Section>
+                                    <Action.Push
+                                        title="Edit Hook"
+                                        icon={Icon.Pencil}
+                                        target={<HookForm hook={hook} />}
+                                    />
+                                    <Action
+                                        title={hook.enabled ? "Disable Hook" : "Enable Hook"}
+                                        icon={hook.enabled ? Icon.BoltDisabled : Icon.Bolt}
+                                        shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
+                                        onAction={() => setHookEnabled(hook.id, !hook.enabled)}
+                                    />
+                                    {createAction}
+                                </ActionPanel.Section>
+                                <ActionPanel.Section>
+                                    <Action
+                                        title="Delete Hook"
+                                        icon={Icon.Trash}
+                                        style={Action.Style.Destructive}
+                                        shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                                        onAction={() => handleDelete(hook)}
+                                    />
+                                </ActionPanel.Section>
+                            </ActionPanel>
+                        }
+                    />
+                ))}
+            </List.Section>
+            <List.Section title="Recent Runs">
+                {runs.map((run) => (
+                    <List.Item
+                        key={run.id}
+                        title={run.hookName}
+                        subtitle={run.command}
+                        icon={
+                            run.success
+                                ? { source: Icon.CheckCircle, tintColor: Color.Green }
+                                : { source: Icon.XMarkCircle, tintColor: Color.Red }
+                        }
+                        accessories={[
+                            ...(run.output ? [{ icon: Icon.Terminal, tooltip: run.output }] : []),
+                            { text: `${run.duration} ms` },
+                            { text: formatClockTime(run.startedAt), tooltip: run.startedAt.toLocaleString() }
+                        ]}
+                        actions={
+                            <ActionPanel>
+                                {run.output && <Action.CopyToClipboard title="Copy Output" content={run.output} />}
+                                <Action.CopyToClipboard
+                                    title="Copy Command"
+                                    content={run.command}
+                                    shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+                                />
+                                {createAction}
+                                <Action
+                                    title="Clear Log"
+                                    icon={Icon.Trash}
+                                    style={Action.Style.Destructive}
+                                    shortcut={{ modifiers: ["ctrl", "shift"], key: "x" }}
+                                    onAction={clearRuns}
+                                />
+                            </ActionPanel>
+                        }
+                    />
+                ))}
+            </List.Section>
+            <List.EmptyView
+                title="No hooks yet"
+                description="Run your own commands when sessions start, pause, resume, complete, skip or stop."
+                icon={Icon.Bolt}
+                actions={<ActionPanel>{createAction}</ActionPanel>}
+            />
+        </List>
+    )
+}
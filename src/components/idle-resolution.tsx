@@ -0,0 +1,59 @@
+import { Action, ActionPanel, Detail, Icon, useNavigation } from "@raycast/api"
+import { runLatestTimerAction, usePomodoroStore } from "../store/pomodoro-store"
+import { IdleResolution } from "../types/timer"
+import { getOpenIdlePause } from "../utils/timer-engine"
+import { formatClockTime, formatDuration, getIdleResolutionLabel } from "../utils/timer-format"
+
+const RESOLUTION_ICONS: Record<IdleResolution, Icon> = {
+    [IdleResolution.DISCARD]: Icon.Trash,
+    [IdleResolution.BREAK]: Icon.Mug,
+    [IdleResolution.WORK]: Icon.Hammer
+}
+
+/**
+ * Ask how the time away from the computer should count, then resume the session
+ */
+export function IdleResolutionView() {
+    const { pop } = useNavigation()
+    const currentSession = usePomodoroStore((state) => state.currentSession)
+    const resolveIdle = usePomodoroStore((state) => state.resolveIdle)
+    const pause = currentSession ? getOpenIdlePause(currentSession) : undefined
+
+    if (!pause) {
+        return <Detail navigationTitle="Welcome Back" markdown="The idle time has already been settled." />
+    }
+
+    const awaySeconds = Math.round((Date.now() - pause.start.getTime()) / 1000)
+    const markdown = [
+        "## Welcome back",
+        `You were away for **${formatDuration(awaySeconds)}**, since ${formatClockTime(pause.start)}. The session was paused when you left.`,
+        `- **${getIdleResolutionLabel(IdleResolution.DISCARD)}** — the time does not count at all`,
+        `- **${getIdleResolutionLabel(IdleResolution.BREAK)}** — the time is added to your break time`,
+        `- **${getIdleResolutionLabel(IdleResolution.WORK)}** — you were working away from the computer`
+    ].join("\n\n")
+
+    async function handleResolve(resolution: IdleResolution) {
+        if (await runLatestTimerAction(() => resolveIdle(resolution))) {
+            pop()
+        }
+    }
+
+    return (
+        <Detail
+            navigationTitle="Welcome Back"
+            markdown={markdown}
+            actions={
+                <ActionPanel>
+                    {Object.values(IdleResolution).map((resolution) => (
+                        <Action
+                            key={resolution}
+                            title={getIdleResolutionLabel(resolution)}
+                            icon={RESOLUTION_ICONS[resolution]}
+                            onAction={() => handleResolve(resolution)}
+                        />
+                    ))}
+                </ActionPanel>
+            }
+        />
+    )
+}
@@ -0,0 +1,165 @@
+import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api"
+import { promises as fs } from "fs"
+import { basename } from "path"
+import { useState } from "react"
+import { reloadPomodoroStore, usePomodoroStore } from "../store/pomodoro-store"
+import { hydrateTaskStore, resolveLabels } from "../store/task-store"
+import { TimerSession } from "../types/timer"
+import {
+    ColumnMapping,
+    getColumns,
+    guessColumnMapping,
+    ImportRecord,
+    isDuplicateSession,
+    readImportRecords,
+    recordToSession
+} from "../utils/import"
+import { processItemsWithRecovery, showProcessingResults } from "../utils/windows-helpers"
+
+const NOT_MAPPED = ""
+
+const MAPPING_FIELDS: Array<{ id: keyof ColumnMapping; title: string; info: string }> = [
+    { id: "start", title: "Start", info: "Date and time the session started (required)" },
+    { id: "end", title: "End", info: "Date and time the session ended" },
+    {
+        id: "duration",
+        title: "Duration",
+        info: "Minutes, seconds for columns named so, or h:mm:ss / mm:ss; computed from start and end when missing"
+    },
+    { id: "task", title: "Task", info: "Task or description" },
+    { id: "project", title: "Project", info: "Project, category or client" },
+    {
+        id: "type",
+        title: "Session Type",
+        info: "Values containing 'break' or 'long' become breaks; everything else is work"
+    }
+]
+
+/**
+ * Form for importing sessions from another Pomodoro app's CSV or JSON export
+ */
+export function ImportForm() {
+    const { pop } = useNavigation()
+    const [records, setRecords] = useState<ImportRecord[]>([])
+    const [columns, setColumns] = useState<string[]>([])
+    const [mapping, setMapping] = useState<Partial<ColumnMapping>>({})
+    const [fileName, setFileName] = useState<string>()
+    const [isLoading, setIsLoading] = useState(false)
+
+    async function handleFileChange(paths: string[]) {
+        const [path] = paths
+        if (!path) {
+            setRecords([])
+            setColumns([])
+            setFileName(undefined)
+            return
+        }
+
+        setIsLoading(true)
+        try {
+            const content = await fs.readFile(path, "utf8")
+            const parsed = readImportRecords(content, path)
+            const found = getColumns(parsed)
+            setRecords(parsed)
+            setColumns(found)
+            setMapping(guessColumnMapping(found))
+            setFileName(basename(path))
+        } catch (error) {
+            setRecords([])
+            setColumns([])
+            await showToast({
+                style: Toast.Style.Failure,
+                title: "Could not read file",
+                message: error instanceof Error ? error.message : "Unknown error occurred"
+            })
+        } finally {
+            setIsLoading(false)
+        }
+    }
+
+    async function handleSubmit() {
+        const { start } = mapping
+        if (!start) {
+            await showToast({ style: Toast.Style.Failure, title: "Choose the column that holds the start time" })
+            return
+        }
+
+        const toast = await showToast({ style: Toast.Style.Animated, title: "Importing sessions" })
+        await hydrateTaskStore()
+        await reloadPomodoroStore()
+
+        const existing = [...usePomodoroStore.getState().history]
+        const imported: TimerSession[] = []
+        let skipped = 0
+
+        const results = await processItemsWithRecovery(
+            records.map((record, index) => ({ record, row: index + 1 })),
+            async ({ record, row }) => {
+                try {
+                    const session = recordToSession(record, { ...mapping, start })
+                    if (isDuplicateSession(session, existing)) {
+                        skipped++
+                        return
+                    }
+
+                    const linked = { ...session, ...resolveLabels(session.taskName, session.projectName) }
+                    existing.push(linked)
+                    imported.push(linked)
+                } catch (error) {
+                    throw new Error(`Row ${row}: ${error instanceof Error ? error.message : "Unknown error"}`)
+                }
+            },
+            (completed, total) => {
+                toast.message = `${completed} of ${total}`
+            }
+        )
+
+        // Other commands may have finished sessions while the rows were processed
+        await reloadPomodoroStore()
+        usePomodoroStore.getState().importSessions(imported)
+        await toast.hide()
+        await showProcessingResults({ ...results, successful: results.successful - skipped, skipped }, "Import")
+        pop()
+    }
+
+    return (
+        <Form
+            isLoading={isLoading}
+            navigationTitle="Import Sessions"
+            actions={
+                <ActionPanel>
+                    <Action.SubmitForm title="Import Sessions" icon={Icon.Upload} onSubmit={handleSubmit} />
+                </ActionPanel>
+            }
+        >
+            <Form.FilePicker
+                id="file"
+                title="Export File"
+                allowMultipleSelection={false}
+                canChooseDirectories={false}
+                info="CSV or JSON export from another Pomodoro or time tracking app"
+                onChange={handleFileChange}
+            />
+            {fileName && <Form.Description title="Rows" text={`${records.length} rows found in ${fileName}`} />}
+            {columns.length > 0 && <Form.Separator />}
+            {columns.length > 0 &&
+                MAPPING_FIELDS.map((field) => (
+                    <Form.Dropdown
+                        key={field.id}
+                        id={field.id}
+                        title={field.title}
+                        info={field.info}
+                        value={mapping[field.id] ?? NOT_MAPPED}
+                        onChange={(column) =>
+                            setMapping((current) => ({ ...current, [field.id]: column || undefined }))
+                        }
+                    >
+                        <Form.Dropdown.Item value={NOT_MAPPED} title="Not Mapped" icon={Icon.Minus} />
+                        {columns.map((column) => (
+                            <Form.Dropdown.Item key={column} value={column} title={column} />
+                        ))}
+                    </Form.Dropdown>
+                ))}
+        </Form>
+    )
+}
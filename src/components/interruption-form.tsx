@@ -0,0 +1,56 @@
+import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api"
+import { runLatestTimerAction, usePomodoroStore } from "../store/pomodoro-store"
+import { InterruptionType } from "../types/timer"
+import { getInterruptionTypeLabel } from "../utils/timer-format"
+
+interface FormValues {
+    type: string
+    note: string
+}
+
+/**
+ * Form for logging an interruption against the current session
+ */
+export function InterruptionForm({ type = InterruptionType.EXTERNAL }: { type?: InterruptionType }) {
+    const { pop } = useNavigation()
+
+    async function handleSubmit(values: FormValues) {
+        const interruptionType = values.type as InterruptionType
+        const logged = await runLatestTimerAction(() =>
+            usePomodoroStore.getState().logInterruption(interruptionType, values.note.trim() || undefined)
+        )
+        if (!logged) return
+
+        await showToast({
+            style: Toast.Style.Success,
+            title: `${getInterruptionTypeLabel(interruptionType)} interruption logged`
+        })
+        pop()
+    }
+
+    return (
+        <Form
+            navigationTitle="Log Interruption"
+            actions={
+                <ActionPanel>
+                    <Action.SubmitForm title="Log Interruption" icon={Icon.Check} onSubmit={handleSubmit} />
+                </ActionPanel>
+            }
+        >
+            <Form.Dropdown id="type" title="Type" defaultValue={type}>
+                <Form.Dropdown.Item
+                    value={InterruptionType.EXTERNAL}
+                    title={getInterruptionTypeLabel(InterruptionType.EXTERNAL)}
+                    icon={Icon.TwoPeople}
+                />
+                <Form.Dropdown.Item
+                    value={InterruptionType.INTERNAL}
+                    title={getInterruptionTypeLabel(InterruptionType.INTERNAL)}
+                    icon={Icon.LightBulb}
+                />
+            </Form.Dropdown>
+            <Form.TextField id="note" title="Note" placeholder="Question from a colleague" />
+            <Form.Description text="Internal: your own urge to switch tasks. External: a person, call or message." />
+        </Form>
+    )
+}
@@ -0,0 +1,67 @@
+import { Icon, List } from "@raycast/api"
+import { format } from "date-fns"
+import { useMemo } from "react"
+import { TimerSession } from "../types/timer"
+import { getDailyBreakdown, getProjectInterruptions } from "../utils/statistics"
+
+const MAX_DAYS = 14
+
+function formatCounts(internal: number, external: number): List.Item.Accessory[] {
+    return [
+        { icon: Icon.LightBulb, text: internal.toString(), tooltip: "Internal interruptions" },
+        { icon: Icon.TwoPeople, text: external.toString(), tooltip: "External interruptions" }
+    ]
+}
+
+/**
+ * Interruption totals per project and per day
+ */
+export function InterruptionStats({ history }: { history: TimerSession[] }) {
+    const projects = useMemo(() => getProjectInterruptions(history), [history])
+    const days = useMemo(
+        () =>
+            getDailyBreakdown(history)
+                .filter((day) => day.internalInterruptions + day.externalInterruptions > 0)
+                .reverse()
+                .slice(0, MAX_DAYS),
+        [history]
+    )
+
+    return (
+        <List navigationTitle="Interruptions">
+            <List.Section title="By Project" subtitle="Most interrupted first">
+                {projects.map((project) => {
+                    const total = project.internalInterruptions + project.externalInterruptions
+                    const perSession = project.workSessions > 0 ? total / project.workSessions : total
+                    return (
+                        <List.Item
+                            key={project.projectName ?? ""}
+                            title={project.projectName ?? "No Project"}
+                            icon={Icon.Folder}
+                            subtitle={`${perSession.toFixed(1)} per work session`}
+                            accessories={[
+                                ...formatCounts(project.internalInterruptions, project.externalInterruptions),
+                                { text: `${project.workSessions} sessions` }
+                            ]}
+                        />
+                    )
+                })}
+            </List.Section>
+            <List.Section title="By Day" subtitle={`Last ${MAX_DAYS} days with interruptions`}>
+                {days.map((day) => (
+                    <List.Item
+                        key={day.day.getTime()}
+                        title={format(day.day, "EEEE, MMM d")}
+                        icon={Icon.Calendar}
+                        accessories={formatCounts(day.internalInterruptions, day.externalInterruptions)}
+                    />
+                ))}
+            </List.Section>
+            <List.EmptyView
+                title="No interruptions logged"
+                description="Log interruptions from the timer while a session is running."
+                icon={Icon.Bell}
+            />
+        </List>
+    )
+}
@@ -0,0 +1,192 @@
+import { Action, ActionPanel, Alert, confirmAlert, Form, Icon, useNavigation } from "@raycast/api"
+import { useState } from "react"
+import { useNotificationHydration, useNotificationStore } from "../store/notification-store"
+import { SessionType } from "../types/timer"
+import { MAX_REPEAT, NOTIFICATION_PLACEHOLDERS } from "../utils/notifications"
+import { getSessionTypeLabel } from "../utils/timer-format"
+
+const SESSION_TYPES = [SessionType.WORK, SessionType.SHORT_BREAK, SessionType.LONG_BREAK]
+
+type FormValues = Record<string, string | string[] | boolean>
+
+/**
+ * Parse a whole number within a range, returning undefined when the text is not one
+ */
+function parseWholeNumber(text: string, min: number, max: number): number | undefined {
+    const value = Number(text.trim())
+    return Number.isInteger(value) && value >= min && value <= max ? value : undefined
+}
+
+/**
+ * Form for the sounds and texts of session notifications
+ */
+export function NotificationForm() {
+    const { pop } = useNavigation()
+    const hydrated = useNotificationHydration()
+    const { sessions, tickInLastMinute, tickFile, tickVolume } = useNotificationStore()
+    const [errors, setErrors] = useState<Record<string, string | undefined>>({})
+
+    function clearError(id: string) {
+        setErrors((current) => ({ ...current, [id]: undefined }))
+    }
+
+    function handleSubmit(values: FormValues) {
+        const nextErrors: Record<string, string> = {}
+        const number = (id: string, min: number, max: number) => {
+            const value = parseWholeNumber(values[id] as string, min, max)
+            if (value === undefined) {
+                nextErrors[id] = `Enter a whole number between ${min} and ${max}`
+            }
+            return value ?? min
+        }
+
+        const changes = SESSION_TYPES.map((type) => ({
+            type,
+            soundFile: (values[`${type}-sound`] as string[])[0],
+            volume: number(`${type}-volume`, 0, 100),
+            repeat: number(`${type}-repeat`, 1, MAX_REPEAT),
+            template: values[`${type}-template`] as string
+        }))
+        const nextTickVolume = number("tick-volume", 0, 100)
+
+        if (Object.keys(nextErrors).length > 0) {
+            setErrors(nextErrors)
+            return
+        }
+
+        const { updateSessionNotification, updateTickSettings } = useNotificationStore.getState()
+        changes.forEach(({ type, ...notification }) => updateSessionNotification(type, notification))
+        updateTickSettings({
+            tickInLastMinute: values["tick-enabled"] as boolean,
+            tickFile: (values["tick-sound"] as string[])[0],
+            tickVolume: nextTickVolume
+        })
+        pop()
+    }
+
+    async function handleReset() {
+        const confirmed = await confirmAlert({
+            title: "Reset Notifications",
+            message: "Go back to the default sounds and texts for every session type?",
+            primaryAction: {
+                title: "Reset",
+                style: Alert.ActionStyle.Destructive
+            }
+        })
+
+        if (confirmed) {
+            useNotificationStore.getState().resetNotifications()
+            pop()
+        }
+    }
+
+    if (!hydrated) {
+        return <Form isLoading navigationTitle="Notifications" />
+    }
+
+    return (
+        <Form
+            navigationTitle="Notifications"
+            actions={
+                <ActionPanel>
+                    <Action.SubmitForm title="Save Notifications" icon={Icon.Check} onSubmit={handleSubmit} />
+                    <Action
+                        title="Reset to Defaults"
+                        icon={Icon.ArrowCounterClockwise}
+                        style={Action.Style.Destructive}
+                        shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                        onAction={handleReset}
+                    />
+                </ActionPanel>
+            }
+        >
+            {SESSION_TYPES.map((type) => (
+                <NotificationFields key={type} type={type} errors={errors} onChange={clearError} {...sessions[type]} />
+            ))}
+            <Form.Separator />
+            <Form.Checkbox
+                id="tick-enabled"
+                title="Last Minute"
+                label="Tick every second while the timer is open"
+                defaultValue={tickInLastMinute}
+            />
+            <Form.FilePicker
+                id="tick-sound"
+                title="Tick Sound"
+                allowMultipleSelection={false}
+                defaultValue={tickFile ? [tickFile] : []}
+            />
+            <Form.TextField
+                id="tick-volume"
+                title="Tick Volume (%)"
+                defaultValue={tickVolume.toString()}
+                error={errors["tick-volume"]}
+                onChange={() => clearError("tick-volume")}
+            />
+            <Form.Separator />
+            <Form.Description
+                title="Placeholders"
+                text={NOTIFICATION_PLACEHOLDERS.map(
+                    ({ placeholder, description }) => `${placeholder}  ${description}`
+                ).join("\n")}
+            />
+        </Form>
+    )
+}
+
+/**
+ * Sound and text fields of one session type
+ */
+function NotificationFields({
+    type,
+    soundFile,
+    volume,
+    repeat,
+    template,
+    errors,
+    onChange
+}: {
+    type: SessionType
+    soundFile?: string
+    volume: number
+    repeat: number
+    template: string
+    errors: Record<string, string | undefined>
+    onChange: (id: string) => void
+}) {
+    const label = getSessionTypeLabel(type)
+
+    return (
+        <>
+            <Form.Description title={label} text={`When a ${label.toLowerCase()} session completes`} />
+            <Form.FilePicker
+                id={`${type}-sound`}
+                title="Sound"
+                info="Leave empty for no sound"
+                allowMultipleSelection={false}
+                defaultValue={soundFile ? [soundFile] : []}
+            />
+            <Form.TextField
+                id={`${type}-volume`}
+                title="Volume (%)"
+                defaultValue={volume.toString()}
+                error={errors[`${type}-volume`]}
+                onChange={() => onChange(`${type}-volume`)}
+            />
+            <Form.TextField
+                id={`${type}-repeat`}
+                title="Repeat"
+                info={`How many times the sound plays, up to ${MAX_REPEAT}`}
+                defaultValue={repeat.toString()}
+                error={errors[`${type}-repeat`]}
+                onChange={() => onChange(`${type}-repeat`)}
+            />
+            <Form.TextField
+                id={`${type}-template`}
+                title="Text"
+                info="Shown as a HUD, or as a toast while the timer is open; leave empty for no text"
+                defaultValue={template}
+            />
+        </>
+    )
+}
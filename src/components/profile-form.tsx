@@ -0,0 +1,72 @@
+import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api"
+import { useState } from "react"
+import { usePomodoroStore } from "../store/pomodoro-store"
+import { TimerProfile } from "../types/timer"
+import { DurationSettings, parseDurationSettings, SETTING_RULES } from "../utils/config"
+
+type FormValues = Record<keyof DurationSettings, string> & { name: string }
+
+const FIELDS = Object.keys(SETTING_RULES) as Array<keyof DurationSettings>
+
+/**
+ * Form for creating or editing a named timer profile
+ */
+export function ProfileForm({ profile, activate }: { profile?: TimerProfile; activate?: boolean }) {
+    const { pop } = useNavigation()
+    const config = usePomodoroStore((state) => state.config)
+    const [errors, setErrors] = useState<Partial<Record<keyof FormValues, string>>>({})
+
+    async function handleSubmit(values: FormValues) {
+        const name = values.name.trim()
+        const { settings, issues } = parseDurationSettings(values)
+
+        if (!name || issues.length > 0) {
+            setErrors({
+                name: name ? undefined : "Profile name is required",
+                ...Object.fromEntries(issues.map((issue) => [issue.field, issue.message]))
+            })
+            return
+        }
+
+        const store = usePomodoroStore.getState()
+        const saved = store.saveProfile({ id: profile?.id, name, ...(settings as DurationSettings) })
+        if (activate) {
+            store.activateProfile(saved.id)
+        }
+        await showToast({ style: Toast.Style.Success, title: `Profile "${saved.name}" saved` })
+        pop()
+    }
+
+    const defaults: DurationSettings = profile ?? config
+
+    return (
+        <Form
+            navigationTitle={profile ? "Edit Profile" : "Create Profile"}
+            actions={
+                <ActionPanel>
+                    <Action.SubmitForm title="Save Profile" icon={Icon.Check} onSubmit={handleSubmit} />
+                </ActionPanel>
+            }
+        >
+            <Form.TextField
+                id="name"
+                title="Name"
+                placeholder="Deep Work 90/20"
+                defaultValue={profile?.name}
+                error={errors.name}
+                onChange={() => setErrors((current) => ({ ...current, name: undefined }))}
+            />
+            {FIELDS.map((field) => (
+                <Form.TextField
+                    key={field}
+                    id={field}
+                    title={SETTING_RULES[field].title}
+                    info={`${SETTING_RULES[field].min}–${SETTING_RULES[field].max} ${SETTING_RULES[field].unit}`}
+                    defaultValue={defaults[field].toString()}
+                    error={errors[field]}
+                    onChange={() => setErrors((current) => ({ ...current, [field]: undefined }))}
+                />
+            ))}
+        </Form>
+    )
+}
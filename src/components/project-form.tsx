@@ -0,0 +1,63 @@
+import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api"
+import { useState } from "react"
+import { useTaskStore } from "../store/task-store"
+import { Project } from "../types/task"
+
+interface FormValues {
+    name: string
+}
+
+/**
+ * Form for creating or renaming a project
+ * Renaming updates the project name on every session that references it
+ */
+export function ProjectForm({ project }: { project?: Project }) {
+    const { pop } = useNavigation()
+    const projects = useTaskStore((state) => state.projects)
+    const addProject = useTaskStore((state) => state.addProject)
+    const updateProject = useTaskStore((state) => state.updateProject)
+    const [nameError, setNameError] = useState<string | undefined>()
+
+    function handleSubmit(values: FormValues) {
+        const name = values.name.trim()
+        if (!name) {
+            setNameError("Project name is required")
+            return
+        }
+        if (projects.some((other) => other.id !== project?.id && other.name.toLowerCase() === name.toLowerCase())) {
+            setNameError("A project with this name already exists")
+            return
+        }
+
+        if (project) {
+            updateProject(project.id, { name })
+        } else {
+            addProject(name)
+        }
+        pop()
+    }
+
+    return (
+        <Form
+            navigationTitle={project ? "Rename Project" : "Create Project"}
+            actions={
+                <ActionPanel>
+                    <Action.SubmitForm
+                        title={project ? "Save Project" : "Create Project"}
+                        icon={Icon.Check}
+                        onSubmit={handleSubmit}
+                    />
+                </ActionPanel>
+            }
+        >
+            <Form.TextField
+                id="name"
+                title="Name"
+                placeholder="Website Redesign"
+                defaultValue={project?.name}
+                error={nameError}
+                onChange={() => setNameError(undefined)}
+            />
+        </Form>
+    )
+}
@@ -0,0 +1,79 @@
+import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api"
+import { reloadPomodoroStore, usePomodoroStore } from "../store/pomodoro-store"
+import { SessionReflection, TimerSession } from "../types/timer"
+import { FOCUS_RATINGS, formatFocusRating, getSessionLabel } from "../utils/timer-format"
+
+const NOT_RATED = ""
+
+interface FormValues {
+    accomplished: string
+    focusRating: string
+    notes: string
+}
+
+/**
+ * Form for reflecting on a finished session: what got done, how focused it felt and any notes
+ */
+export function ReflectionForm({ session }: { session: TimerSession }) {
+    const { pop } = useNavigation()
+    const reflection = session.reflection
+
+    async function handleSubmit(values: FormValues) {
+        const updated: SessionReflection = {
+            accomplished: values.accomplished.trim() || undefined,
+            focusRating: values.focusRating ? Number(values.focusRating) : undefined,
+            notes: values.notes.trim() || undefined
+        }
+        const isEmpty = Object.values(updated).every((value) => value === undefined)
+
+        await reloadPomodoroStore()
+        usePomodoroStore.getState().updateHistorySession(session.id, { reflection: isEmpty ? undefined : updated })
+        await showToast({ style: Toast.Style.Success, title: "Reflection saved" })
+        pop()
+    }
+
+    return (
+        <Form
+            navigationTitle={`Reflect on ${getSessionLabel(session)}`}
+            actions={
+                <ActionPanel>
+                    <Action.SubmitForm title="Save Reflection" icon={Icon.Check} onSubmit={handleSubmit} />
+                    <Action
+                        title="Skip"
+                        icon={Icon.XMarkCircle}
+                        shortcut={{ modifiers: ["cmd"], key: "." }}
+                        onAction={pop}
+                    />
+                </ActionPanel>
+            }
+        >
+            {session.taskName && <Form.Description title="Task" text={session.taskName} />}
+            <Form.TextArea
+                id="accomplished"
+                title="Accomplished"
+                placeholder="What did you get done?"
+                defaultValue={reflection?.accomplished}
+            />
+            <Form.Dropdown
+                id="focusRating"
+                title="Focus"
+                defaultValue={reflection?.focusRating?.toString() ?? NOT_RATED}
+            >
+                <Form.Dropdown.Item value={NOT_RATED} title="Not Rated" icon={Icon.Minus} />
+                {FOCUS_RATINGS.map((title, index) => (
+                    <Form.Dropdown.Item
+                        key={title}
+                        value={(index + 1).toString()}
+                        title={`${formatFocusRating(index + 1)} ${title}`}
+                    />
+                ))}
+            </Form.Dropdown>
+            <Form.TextArea
+                id="notes"
+                title="Notes"
+                placeholder="Anything worth remembering next time"
+                defaultValue={reflection?.notes}
+            />
+        </Form>
+    )
+}
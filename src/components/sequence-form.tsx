@@ -0,0 +1,76 @@
+import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api"
+import { useState } from "react"
+import { usePomodoroStore } from "../store/pomodoro-store"
+import { SessionSequence } from "../types/timer"
+import { formatSegments, parseSegments } from "../utils/sequences"
+
+interface FormValues {
+    name: string
+    segments: string
+}
+
+const SEGMENTS_PLACEHOLDER = "Plan, 10, work\nFocus, 45, work\nStretch, 5, break"
+
+/**
+ * Form for creating or editing a custom session sequence
+ */
+export function SequenceForm({ sequence, activate }: { sequence?: SessionSequence; activate?: boolean }) {
+    const { pop } = useNavigation()
+    const [errors, setErrors] = useState<Partial<Record<keyof FormValues, string>>>({})
+
+    async function handleSubmit(values: FormValues) {
+        const name = values.name.trim()
+        const { segments, issues } = parseSegments(values.segments)
+
+        if (!name || issues.length > 0) {
+            setErrors({
+                name: name ? undefined : "Sequence name is required",
+                segments: issues.length > 0 ? issues.map((issue) => issue.message).join("\n") : undefined
+            })
+            return
+        }
+
+        const store = usePomodoroStore.getState()
+        const saved = store.saveSequence({ id: sequence?.id, name, segments })
+        if (activate) {
+            store.activateSequence(saved.id)
+        }
+        await showToast({
+            style: Toast.Style.Success,
+            title: `Sequence "${saved.name}" saved`
+        })
+        pop()
+    }
+
+    return (
+        <Form
+            navigationTitle={sequence ? "Edit Sequence" : "Create Sequence"}
+            actions={
+                <ActionPanel>
+                    <Action.SubmitForm title="Save Sequence" icon={Icon.Check} onSubmit={handleSubmit} />
+                </ActionPanel>
+            }
+        >
+            <Form.TextField
+                id="name"
+                title="Name"
+                placeholder="Morning Routine"
+                defaultValue={sequence?.name}
+                error={errors.name}
+                onChange={() => setErrors((current) => ({ ...current, name: undefined }))}
+            />
+            <Form.TextArea
+                id="segments"
+                title="Segments"
+                placeholder={SEGMENTS_PLACEHOLDER}
+                info={
+                    'One segment per line: "name, minutes, work" or "name, minutes, break". Work segments count towards your stats.'
+                }
+                defaultValue={sequence ? formatSegments(sequence.segments) : undefined}
+                error={errors.segments}
+                onChange={() => setErrors((current) => ({ ...current, segments: undefined }))}
+            />
+            <Form.Description text="The sequence repeats from the top after its last segment." />
+        </Form>
+    )
+}
@@ -0,0 +1,126 @@
+import { Action, ActionPanel, Color, Detail, Icon } from "@raycast/api"
+import { format } from "date-fns"
+import { reloadPomodoroStore, usePomodoroStore } from "../store/pomodoro-store"
+import { TimerSession } from "../types/timer"
+import { getElapsedSeconds } from "../utils/timer-engine"
+import {
+    FOCUS_RATINGS,
+    formatClockTime,
+    formatDuration,
+    formatFocusRating,
+    formatInterruption,
+    getSessionLabel,
+    getSessionTypeLabel
+} from "../utils/timer-format"
+import { ReflectionForm } from "./reflection-form"
+import { SessionTaskForm } from "./session-task-form"
+
+/**
+ * Markdown body of the detail view: the reflection and the interruption log
+ */
+function getMarkdown(session: TimerSession): string {
+    const lines = [`# ${session.taskName || getSessionLabel(session)}`]
+    const { reflection } = session
+
+    if (reflection?.accomplished) {
+        lines.push("## Accomplished", reflection.accomplished)
+    }
+    if (reflection?.notes) {
+        lines.push("## Notes", reflection.notes)
+    }
+    if (!reflection) {
+        lines.push("_No reflection yet._")
+    }
+
+    if (session.interruptions.length > 0) {
+        lines.push(
+            "## Interruptions",
+            session.interruptions.map((interruption) => `- ${formatInterruption(interruption)}`).join("\n")
+        )
+    }
+
+    return lines.join("\n\n")
+}
+
+/**
+ * Detail view of a session from the history, including its reflection
+ */
+export function SessionDetail({ sessionId }: { sessionId: string }) {
+    // Read from the store so edits made from this view show up immediately
+    const session = usePomodoroStore((state) => state.history.find((candidate) => candidate.id === sessionId))
+    const updateHistorySession = usePomodoroStore((state) => state.updateHistorySession)
+
+    if (!session) {
+        return <Detail markdown="This session no longer exists." />
+    }
+
+    const rating = session.reflection?.focusRating
+    // Idle time kept as work is no pause anymore, so only discarded or break time is left here
+    const awaySeconds = session.pauses.reduce(
+        (total, pause) =>
+            pause.idle && pause.end ? total + (pause.end.getTime() - pause.start.getTime()) / 1000 : total,
+        0
+    )
+
+    return (
+        <Detail
+            navigationTitle={getSessionLabel(session)}
+            markdown={getMarkdown(session)}
+            metadata={
+                <Detail.Metadata>
+                    <Detail.Metadata.Label title="Type" text={getSessionTypeLabel(session.type)} />
+                    {session.segment && <Detail.Metadata.Label title="Segment" text={session.segment.name} />}
+                    {session.projectName && <Detail.Metadata.Label title="Project" text={session.projectName} />}
+                    <Detail.Metadata.Label title="Date" text={format(session.startTime, "EEEE, MMM d, yyyy")} />
+                    <Detail.Metadata.Label
+                        title="Time"
+                        text={
+                            session.endTime
+                                ? `${formatClockTime(session.startTime)} – ${formatClockTime(session.endTime)}`
+                                : formatClockTime(session.startTime)
+                        }
+                    />
+                    <Detail.Metadata.Label title="Focused" text={formatDuration(getElapsedSeconds(session))} />
+                    {awaySeconds > 0 && <Detail.Metadata.Label title="Away" text={formatDuration(awaySeconds)} />}
+                    <Detail.Metadata.TagList title="Status">
+                        {session.completed ? (
+                            <Detail.Metadata.TagList.Item text="Completed" color={Color.Green} />
+                        ) : (
+                            <Detail.Metadata.TagList.Item text="Aborted" color={Color.SecondaryText} />
+                        )}
+                    </Detail.Metadata.TagList>
+                    <Detail.Metadata.Separator />
+                    <Detail.Metadata.Label
+                        title="Focus Rating"
+                        text={rating ? `${formatFocusRating(rating)} ${FOCUS_RATINGS[rating - 1]}` : "Not rated"}
+                    />
+                    <Detail.Metadata.Label title="Interruptions" text={session.interruptions.length.toString()} />
+                </Detail.Metadata>
+            }
+            actions={
+                <ActionPanel>
+                    <Action.Push
+                        title={session.reflection ? "Edit Reflection" : "Add Reflection"}
+                        icon={Icon.Bubble}
+                        shortcut={{ modifiers: ["cmd"], key: "r" }}
+                        target={<ReflectionForm session={session} />}
+                    />
+                    <Action.Push
+                        title="Edit Task"
+                        icon={Icon.Pencil}
+                        shortcut={{ modifiers: ["cmd"], key: "t" }}
+                        target={
+                            <SessionTaskForm
+                                title="Save Session"
+                                labels={session}
+                                onSubmit={(labels) =>
+                                    reloadPomodoroStore().then(() => updateHistorySession(session.id, labels))
+                                }
+                            />
+                        }
+                    />
+                </ActionPanel>
+            }
+        />
+    )
+}
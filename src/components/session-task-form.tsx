@@ -0,0 +1,83 @@
+import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api"
+import { useState } from "react"
+import { getTaskLabels, resolveLabels, useTaskHydration, useTaskStore } from "../store/task-store"
+import { SessionLabels } from "../types/timer"
+
+const NO_TASK = ""
+
+interface SessionTaskFormProps {
+    title?: string
+    labels?: SessionLabels
+    onSubmit: (labels: SessionLabels) => void
+}
+
+interface FormValues {
+    taskId: string
+    taskName: string
+    projectName: string
+}
+
+/**
+ * Form for attaching a task and project to a session
+ * A saved task can be picked, or free text is linked to a task or project with the same name
+ */
+export function SessionTaskForm({ title = "Set Task", labels, onSubmit }: SessionTaskFormProps) {
+    const { pop } = useNavigation()
+    const hydrated = useTaskHydration()
+    const tasks = useTaskStore((state) => state.tasks)
+    const projects = useTaskStore((state) => state.projects)
+    const [taskId, setTaskId] = useState(labels?.taskId ?? NO_TASK)
+
+    const activeTasks = tasks.filter((task) => !task.archived && (!task.completed || task.id === labels?.taskId))
+
+    function handleSubmit(values: FormValues) {
+        const task = tasks.find((candidate) => candidate.id === values.taskId)
+        onSubmit(
+            task
+                ? getTaskLabels(task)
+                : resolveLabels(values.taskName.trim() || undefined, values.projectName.trim() || undefined)
+        )
+        pop()
+    }
+
+    return (
+        <Form
+            isLoading={!hydrated}
+            navigationTitle={title}
+            actions={
+                <ActionPanel>
+                    <Action.SubmitForm title={title} icon={Icon.Check} onSubmit={handleSubmit} />
+                </ActionPanel>
+            }
+        >
+            <Form.Dropdown id="taskId" title="Saved Task" value={taskId} onChange={setTaskId}>
+                <Form.Dropdown.Item value={NO_TASK} title="None (free text)" icon={Icon.Text} />
+                {activeTasks.map((task) => (
+                    <Form.Dropdown.Item
+                        key={task.id}
+                        value={task.id}
+                        title={task.name}
+                        icon={Icon.Circle}
+                        keywords={[projects.find((project) => project.id === task.projectId)?.name ?? ""]}
+                    />
+                ))}
+            </Form.Dropdown>
+            {taskId === NO_TASK && (
+                <>
+                    <Form.TextField
+                        id="taskName"
+                        title="Task"
+                        placeholder="What are you working on?"
+                        defaultValue={labels?.taskName}
+                    />
+                    <Form.TextField
+                        id="projectName"
+                        title="Project"
+                        placeholder="Optional"
+                        defaultValue={labels?.projectName}
+                    />
+                </>
+            )}
+        </Form>
+    )
+}
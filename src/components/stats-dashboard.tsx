@@ -0,0 +1,126 @@
+import { Detail, environment } from "@raycast/api"
+import { useMemo } from "react"
+import { TimerSession } from "../types/timer"
+import { getChartTheme, renderHeatmap, renderHourHistogram, toMarkdownImage } from "../utils/charts"
+import {
+    compareWeeks,
+    computeStats,
+    getCalendarWeeks,
+    getFocusByHour,
+    getProjectBreakdown,
+    PeriodTotals
+} from "../utils/statistics"
+import { formatDuration } from "../utils/timer-format"
+
+const HEATMAP_WEEKS = 26
+const MAX_PROJECTS = 10
+
+/**
+ * Escape a cell of a markdown table
+ */
+function escapeCell(text: string): string {
+    return text.replace(/\|/g, "\\|")
+}
+
+/**
+ * Relative change from last week, e.g. "+25%"
+ */
+function formatChange(current: number, previous: number): string {
+    if (previous === 0) return current > 0 ? "new" : "–"
+    const change = Math.round(((current - previous) / previous) * 100)
+    return change > 0 ? `+${change}%` : `${change}%`
+}
+
+function formatCount(count: number, noun: string): string {
+    return `${count} ${count === 1 ? noun : `${noun}s`}`
+}
+
+function formatWeekComparison(current: PeriodTotals, previous: PeriodTotals): string {
+    const rows: Array<[string, number, number, (value: number) => string]> = [
+        ["Pomodoros", current.completedWorkSessions, previous.completedWorkSessions, String],
+        ["Focus time", current.workTime, previous.workTime, formatDuration],
+        ["Active days", current.activeDays, previous.activeDays, String],
+        ["Interruptions", current.interruptions, previous.interruptions, String]
+    ]
+
+    return [
+        "| | This Week | Last Week | Change |",
+        "| --- | ---: | ---: | ---: |",
+        ...rows.map(
+            ([label, now, before, formatValue]) =>
+                `| ${label} | ${formatValue(now)} | ${formatValue(before)} | ${formatChange(now, before)} |`
+        )
+    ].join("\n")
+}
+
+/**
+ * When we focus, on what, and how this week compares with the last, all computed from the history
+ */
+export function StatsDashboard({ history }: { history: TimerSession[] }) {
+    const theme = getChartTheme(environment.appearance)
+
+    const markdown = useMemo(() => {
+        const weeks = getCalendarWeeks(history, HEATMAP_WEEKS)
+        const hours = getFocusByHour(history)
+        const projects = getProjectBreakdown(history)
+        const { current, previous } = compareWeeks(history)
+
+        const bestHour = hours.indexOf(Math.max(...hours))
+        const totalWorkTime = projects.reduce((total, project) => total + project.workTime, 0)
+
+        const sections = [
+            "## Completed Pomodoros",
+            toMarkdownImage(renderHeatmap(weeks, theme), "Completed pomodoros per day"),
+            "## Focus by Hour of Day",
+            toMarkdownImage(renderHourHistogram(hours, theme), "Focus time per hour of the day"),
+            hours[bestHour] > 0
+                ? `You focus most between **${bestHour}:00 and ${bestHour + 1}:00**, ${formatDuration(hours[bestHour])} in total.`
+                : "No focus time recorded yet.",
+            "## Projects"
+        ]
+
+        if (projects.length > 0) {
+            sections.push(
+                [
+                    "| Project | Focus Time | Pomodoros | Share |",
+                    "| --- | ---: | ---: | ---: |",
+                    ...projects.slice(0, MAX_PROJECTS).map((project) => {
+                        const share = totalWorkTime > 0 ? Math.round((project.workTime / totalWorkTime) * 100) : 0
+                        const name = escapeCell(project.projectName ?? "No Project")
+                        return `| ${name} | ${formatDuration(project.workTime)} | ${project.completedWorkSessions} | ${share}% |`
+                    })
+                ].join("\n")
+            )
+        } else {
+            sections.push("No work sessions yet.")
+        }
+
+        sections.push("## This Week vs Last Week", formatWeekComparison(current, previous))
+        return sections.join("\n\n")
+    }, [history, theme])
+
+    const stats = useMemo(() => computeStats(history), [history])
+
+    return (
+        <Detail
+            navigationTitle="Statistics"
+            markdown={markdown}
+            metadata={
+                <Detail.Metadata>
+                    <Detail.Metadata.Label title="Today" text={formatCount(stats.todaysSessions, "pomodoro")} />
+                    <Detail.Metadata.Label title="This Week" text={formatCount(stats.weekSessions, "pomodoro")} />
+                    <Detail.Metadata.Label title="This Month" text={formatCount(stats.monthSessions, "pomodoro")} />
+                    <Detail.Metadata.Label title="Streak" text={formatCount(stats.streakCount, "day")} />
+                    <Detail.Metadata.Separator />
+                    <Detail.Metadata.Label title="Focus Time" text={formatDuration(stats.totalWorkTime)} />
+                    <Detail.Metadata.Label title="Break Time" text={formatDuration(stats.totalBreakTime)} />
+                    <Detail.Metadata.Label
+                        title="Completed Sessions"
+                        text={`${stats.completedSessions} of ${stats.totalSessions}`}
+                    />
+                    <Detail.Metadata.Label title="Interruptions" text={stats.totalInterruptions.toString()} />
+                </Detail.Metadata>
+            }
+        />
+    )
+}
@@ -0,0 +1,147 @@
+import { Action, ActionPanel, Color, Icon, Image, List, openExtensionPreferences } from "@raycast/api"
+import { reloadSyncStore, syncTimeEntries, useSyncHydration, useSyncStore } from "../store/sync-store"
+import { SyncItem, SyncStatus } from "../types/sync"
+import { MAX_ATTEMPTS } from "../utils/http"
+import { getSyncSettings, getSyncStatusLabel } from "../utils/time-sync"
+import { formatClockTime, formatDuration } from "../utils/timer-format"
+
+const STATUS_ICONS: Record<SyncStatus, Image.ImageLike> = {
+    [SyncStatus.PENDING]: { source: Icon.Clock, tintColor: Color.Orange },
+    [SyncStatus.FAILED]: { source: Icon.XMarkCircle, tintColor: Color.Red },
+    [SyncStatus.SYNCED]: { source: Icon.CheckCircle, tintColor: Color.Green }
+}
+
+function getItemAccessories(item: SyncItem): List.Item.Accessory[] {
+    const started = new Date(item.entry.start)
+    const accessories: List.Item.Accessory[] = [
+        { text: formatDuration(item.entry.duration), tooltip: "Focused time" },
+        { text: `${started.toLocaleDateString()} ${formatClockTime(started)}` }
+    ]
+
+    switch (item.status) {
+        case SyncStatus.PENDING:
+            if (item.attempts > 0) {
+                accessories.unshift({
+                    text: `Retry at ${formatClockTime(item.nextAttemptAt)}`,
+                    tooltip: `Attempt ${item.attempts} of ${MAX_ATTEMPTS} failed: ${item.lastError}`
+                })
+            }
+            break
+        case SyncStatus.FAILED:
+            accessories.unshift({ icon: Icon.Warning, tooltip: item.lastError })
+            break
+        case SyncStatus.SYNCED:
+            if (item.syncedAt) {
+                accessories.unshift({ text: `Synced ${formatClockTime(item.syncedAt)}` })
+            }
+            break
+    }
+
+    return accessories
+}
+
+/**
+ * Uploads of completed work sessions to the time tracker, with the pending and failed ones first
+ */
+export function SyncList() {
+    const hydrated = useSyncHydration()
+    const items = useSyncStore((state) => state.items)
+    const { retryItem, retryAll, discardItem, clearSynced } = useSyncStore.getState()
+    const settings = getSyncSettings()
+
+    // The menu bar and quick start queue entries while this view is open, so changes start from the stored queue
+    async function updateQueue(change: () => void) {
+        await reloadSyncStore()
+        change()
+    }
+
+    async function handleRetry(id?: string) {
+        await updateQueue(() => (id ? retryItem(id) : retryAll()))
+        syncTimeEntries()
+    }
+
+    const queueActions = (
+        <ActionPanel.Section>
+            <Action
+                title="Sync Now"
+                icon={Icon.ArrowClockwise}
+                shortcut={{ modifiers: ["cmd"], key: "r" }}
+                onAction={() => handleRetry()}
+            />
+            <Action
+                title="Clear Synced Entries"
+                icon={Icon.Eraser}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "x" }}
+                onAction={() => updateQueue(clearSynced)}
+            />
+            <Action
+                title="Open Preferences"
+                icon={Icon.Gear}
+                shortcut={{ modifiers: ["cmd"], key: "," }}
+                onAction={openExtensionPreferences}
+            />
+        </ActionPanel.Section>
+    )
+
+    const sections = [SyncStatus.FAILED, SyncStatus.PENDING, SyncStatus.SYNCED].map((status) => ({
+        status,
+        // Most recent first
+        items: items.filter((item) => item.status === status).reverse()
+    }))
+
+    return (
+        <List isLoading={!hydrated} navigationTitle="Time Tracker Sync" searchBarPlaceholder="Search time entries...">
+            {sections.map(({ status, items: sectionItems }) => (
+                <List.Section key={status} title={getSyncStatusLabel(status)} subtitle={sectionItems.length.toString()}>
+                    {sectionItems.map((item) => (
+                        <List.Item
+                            key={item.id}
+                            title={item.entry.description}
+                            subtitle={item.entry.project}
+                            icon={STATUS_ICONS[item.status]}
+                            accessories={getItemAccessories(item)}
+                            actions={
+                                <ActionPanel>
+                                    <ActionPanel.Section>
+                                        {item.status !== SyncStatus.SYNCED && (
+                                            <Action
+                                                title="Retry Now"
+                                                icon={Icon.Upload}
+                                                onAction={() => handleRetry(item.id)}
+                                            />
+                                        )}
+                                        {item.lastError && (
+                                            <Action.CopyToClipboard
+                                                title="Copy Error"
+                                                content={item.lastError}
+                                                shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+                                            />
+                                        )}
+                                        <Action
+                                            title={item.status === SyncStatus.SYNCED ? "Remove" : "Discard Entry"}
+                                            icon={Icon.Trash}
+                                            style={Action.Style.Destructive}
+                                            shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                                            onAction={() => updateQueue(() => discardItem(item.id))}
+                                        />
+                                    </ActionPanel.Section>
+                                    {queueActions}
+                                </ActionPanel>
+                            }
+                        />
+                    ))}
+                </List.Section>
+            ))}
+            <List.EmptyView
+                title={settings ? "Nothing to sync" : "Time tracker sync is off"}
+                description={
+                    settings
+                        ? `Completed work sessions are sent to ${settings.baseUrl} and listed here.`
+                        : "Set the Time Tracker URL in the preferences to send completed work sessions to it."
+                }
+                icon={Icon.Upload}
+                actions={<ActionPanel>{queueActions}</ActionPanel>}
+            />
+        </List>
+    )
+}
@@ -0,0 +1,96 @@
+import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api"
+import { useState } from "react"
+import { useTaskStore } from "../store/task-store"
+import { Task } from "../types/task"
+
+const NO_PROJECT = ""
+
+interface TaskFormProps {
+    task?: Task
+    defaultProjectId?: string
+}
+
+interface FormValues {
+    name: string
+    projectId: string
+    estimatedPomodoros: string
+}
+
+/**
+ * Form for creating or editing a task
+ */
+export function TaskForm({ task, defaultProjectId }: TaskFormProps) {
+    const { pop } = useNavigation()
+    const projects = useTaskStore((state) => state.projects)
+    const addTask = useTaskStore((state) => state.addTask)
+    const updateTask = useTaskStore((state) => state.updateTask)
+    const [nameError, setNameError] = useState<string | undefined>()
+    const [estimateError, setEstimateError] = useState<string | undefined>()
+
+    const selectableProjects = projects.filter((project) => !project.archived || project.id === task?.projectId)
+
+    function handleSubmit(values: FormValues) {
+        const name = values.name.trim()
+        if (!name) {
+            setNameError("Task name is required")
+            return
+        }
+
+        const estimate = values.estimatedPomodoros.trim()
+        const estimatedPomodoros = estimate ? Number(estimate) : undefined
+        if (estimatedPomodoros !== undefined && (!Number.isInteger(estimatedPomodoros) || estimatedPomodoros < 1)) {
+            setEstimateError("Enter a whole number of pomodoros")
+            return
+        }
+
+        const changes = {
+            name,
+            projectId: values.projectId || undefined,
+            estimatedPomodoros
+        }
+        if (task) {
+            updateTask(task.id, changes)
+        } else {
+            addTask(changes)
+        }
+        pop()
+    }
+
+    return (
+        <Form
+            navigationTitle={task ? "Edit Task" : "Create Task"}
+            actions={
+                <ActionPanel>
+                    <Action.SubmitForm
+                        title={task ? "Save Task" : "Create Task"}
+                        icon={Icon.Check}
+                        onSubmit={handleSubmit}
+                    />
+                </ActionPanel>
+            }
+        >
+            <Form.TextField
+                id="name"
+                title="Name"
+                placeholder="Write the quarterly report"
+                defaultValue={task?.name}
+                error={nameError}
+                onChange={() => setNameError(undefined)}
+            />
+            <Form.Dropdown id="projectId" title="Project" defaultValue={task?.projectId ?? defaultProjectId ?? NO_PROJECT}>
+                <Form.Dropdown.Item value={NO_PROJECT} title="No Project" icon={Icon.Minus} />
+                {selectableProjects.map((project) => (
+                    <Form.Dropdown.Item key={project.id} value={project.id} title={project.name} icon={Icon.Folder} />
+                ))}
+            </Form.Dropdown>
+            <Form.TextField
+                id="estimatedPomodoros"
+                title="Estimated Pomodoros"
+                placeholder="Optional"
+                defaultValue={task?.estimatedPomodoros?.toString()}
+                error={estimateError}
+                onChange={() => setEstimateError(undefined)}
+            />
+        </Form>
+    )
+}
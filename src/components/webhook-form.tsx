@@ -0,0 +1,126 @@
+import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api"
+import { useState } from "react"
+import { reloadWebhookStore, useWebhookStore } from "../store/webhook-store"
+import { SessionEvent } from "../types/timer"
+import { Webhook } from "../types/webhook"
+import { getSessionEventLabel } from "../utils/hooks"
+import { DEFAULT_WEBHOOK_EVENTS, generateWebhookSecret, SIGNATURE_DESCRIPTION } from "../utils/webhooks"
+
+interface FormValues {
+    name: string
+    url: string
+    secret: string
+    events: string[]
+    enabled: boolean
+}
+
+/**
+ * Whether a URL can receive webhooks, which takes http or https
+ */
+function isWebhookUrl(value: string): boolean {
+    try {
+        const { protocol } = new URL(value)
+        return protocol === "http:" || protocol === "https:"
+    } catch {
+        return false
+    }
+}
+
+/**
+ * Form for creating or editing a webhook
+ */
+export function WebhookForm({ webhook }: { webhook?: Webhook }) {
+    const { pop } = useNavigation()
+    const saveWebhook = useWebhookStore((state) => state.saveWebhook)
+    const [errors, setErrors] = useState<Partial<Record<keyof FormValues, string>>>({})
+    const [defaultSecret] = useState(() => webhook?.secret ?? generateWebhookSecret())
+
+    async function handleSubmit(values: FormValues) {
+        const name = values.name.trim()
+        const url = values.url.trim()
+        const secret = values.secret.trim()
+
+        const nextErrors: Partial<Record<keyof FormValues, string>> = {}
+        if (!name) {
+            nextErrors.name = "Webhook name is required"
+        }
+        if (!isWebhookUrl(url)) {
+            nextErrors.url = "Enter an http or https URL"
+        }
+        if (!secret) {
+            nextErrors.secret = "Secret is required to sign the payloads"
+        }
+        if (values.events.length === 0) {
+            nextErrors.events = "Choose at least one event"
+        }
+        if (Object.keys(nextErrors).length > 0) {
+            setErrors(nextErrors)
+            return
+        }
+
+        // The stored deliveries may have grown since this view loaded them
+        await reloadWebhookStore()
+        saveWebhook({
+            id: webhook?.id,
+            name,
+            url,
+            secret,
+            events: values.events as SessionEvent[],
+            enabled: values.enabled
+        })
+        pop()
+    }
+
+    return (
+        <Form
+            navigationTitle={webhook ? "Edit Webhook" : "Create Webhook"}
+            actions={
+                <ActionPanel>
+                    <Action.SubmitForm
+                        title={webhook ? "Save Webhook" : "Create Webhook"}
+                        icon={Icon.Check}
+                        onSubmit={handleSubmit}
+                    />
+                </ActionPanel>
+            }
+        >
+            <Form.TextField
+                id="name"
+                title="Name"
+                placeholder="Team dashboard"
+                defaultValue={webhook?.name}
+                error={errors.name}
+                onChange={() => setErrors((current) => ({ ...current, name: undefined }))}
+            />
+            <Form.TextField
+                id="url"
+                title="URL"
+                placeholder="https://example.com/hooks/pomodoro"
+                defaultValue={webhook?.url}
+                error={errors.url}
+                onChange={() => setErrors((current) => ({ ...current, url: undefined }))}
+            />
+            <Form.PasswordField
+                id="secret"
+                title="Secret"
+                info="Signs every payload so the receiver can verify it came from here"
+                defaultValue={defaultSecret}
+                error={errors.secret}
+                onChange={() => setErrors((current) => ({ ...current, secret: undefined }))}
+            />
+            <Form.TagPicker
+                id="events"
+                title="Events"
+                defaultValue={webhook?.events ?? DEFAULT_WEBHOOK_EVENTS}
+                error={errors.events}
+                onChange={() => setErrors((current) => ({ ...current, events: undefined }))}
+            >
+                {Object.values(SessionEvent).map((event) => (
+                    <Form.TagPicker.Item key={event} value={event} title={`Session ${getSessionEventLabel(event)}s`} />
+                ))}
+            </Form.TagPicker>
+            <Form.Checkbox id="enabled" label="Enabled" defaultValue={webhook?.enabled ?? true} />
+            <Form.Description title="Headers" text={SIGNATURE_DESCRIPTION} />
+        </Form>
+    )
+}
@@ -0,0 +1,208 @@
+import { Action, ActionPanel, Alert, Color, confirmAlert, Icon, Image, List } from "@raycast/api"
+import { deliverWebhooks, reloadWebhookStore, useWebhookHydration, useWebhookStore } from "../store/webhook-store"
+import { DeliveryStatus, Webhook, WebhookDelivery } from "../types/webhook"
+import { MAX_ATTEMPTS } from "../utils/http"
+import { getSessionEventLabel } from "../utils/hooks"
+import { formatClockTime } from "../utils/timer-format"
+import { getDeliveryStatusLabel } from "../utils/webhooks"
+import { WebhookForm } from "./webhook-form"
+
+const STATUS_ICONS: Record<DeliveryStatus, Image.ImageLike> = {
+    [DeliveryStatus.PENDING]: { source: Icon.Clock, tintColor: Color.Orange },
+    [DeliveryStatus.FAILED]: { source: Icon.XMarkCircle, tintColor: Color.Red },
+    [DeliveryStatus.DELIVERED]: { source: Icon.CheckCircle, tintColor: Color.Green }
+}
+
+/**
+ * Which events a webhook receives and where, e.g. "Start, Complete · example.com"
+ */
+function describeWebhook(webhook: Webhook): string {
+    const events = webhook.events.map(getSessionEventLabel).join(", ")
+    try {
+        return `${events} · ${new URL(webhook.url).host}`
+    } catch {
+        return events
+    }
+}
+
+function getDeliveryAccessories(delivery: WebhookDelivery): List.Item.Accessory[] {
+    const accessories: List.Item.Accessory[] = [
+        { tag: getDeliveryStatusLabel(delivery.status) },
+        { text: formatClockTime(delivery.createdAt), tooltip: delivery.createdAt.toLocaleString() }
+    ]
+
+    if (delivery.status === DeliveryStatus.PENDING && delivery.attempts > 0) {
+        accessories.unshift({
+            text: `Retry at ${formatClockTime(delivery.nextAttemptAt)}`,
+            tooltip: `Attempt ${delivery.attempts} of ${MAX_ATTEMPTS} failed: ${delivery.lastError}`
+        })
+    } else if (delivery.status === DeliveryStatus.FAILED) {
+        accessories.unshift({ icon: Icon.Warning, tooltip: delivery.lastError })
+    } else if (delivery.responseStatus) {
+        accessories.unshift({ text: `HTTP ${delivery.responseStatus}` })
+    }
+
+    return accessories
+}
+
+/**
+ * Webhooks and the log of their deliveries, with the ones still waiting first
+ */
+export function WebhookList() {
+    const hydrated = useWebhookHydration()
+    const webhooks = useWebhookStore((state) => state.webhooks)
+    const deliveries = useWebhookStore((state) => state.deliveries)
+    const { setWebhookEnabled, deleteWebhook, retryDelivery, discardDelivery, clearDelivered } =
+        useWebhookStore.getState()
+
+    // Other commands queue deliveries while this view is open, so changes start from the stored ones
+    async function updateWebhooks(change: () => void) {
+        await reloadWebhookStore()
+        change()
+    }
+
+    async function handleDelete(webhook: Webhook) {
+        const confirmed = await confirmAlert({
+            title: "Delete Webhook",
+            message: `Are you sure you want to delete "${webhook.name}"? Its undelivered payloads are discarded.`,
+            primaryAction: {
+                title: "Delete",
+                style: Alert.ActionStyle.Destructive
+            }
+        })
+
+        if (confirmed) {
+            await updateWebhooks(() => deleteWebhook(webhook.id))
+        }
+    }
+
+    async function handleRetry(id: string) {
+        await updateWebhooks(() => retryDelivery(id))
+        deliverWebhooks()
+    }
+
+    const createAction = (
+        <Action.Push
+            title="Create Webhook"
+            icon={Icon.PlusCircle}
+            shortcut={{ modifiers: ["cmd"], key: "n" }}
+            target={<WebhookForm />}
+        />
+    )
+
+    // Most recent first, with the ones still waiting or failed on top
+    const isDelivered = (delivery: WebhookDelivery) => Number(delivery.status === DeliveryStatus.DELIVERED)
+    const log = [...deliveries].reverse().sort((a, b) => isDelivered(a) - isDelivered(b))
+
+    return (
+        <List isLoading={!hydrated} navigationTitle="Webhooks">
+            <List.Section title="Webhooks">
+                {webhooks.map((webhook) => (
+                    <List.Item
+                        key={webhook.id}
+                        title={webhook.name}
+                        subtitle={describeWebhook(webhook)}
+                        icon={webhook.enabled ? Icon.Globe : Icon.Dot}
+                        accessories={[
+                            webhook.enabled
+                                ? { tag: { value: "Enabled", color: Color.Green } }
+                                : { tag: { value: "Disabled", color: Color.SecondaryText } }
+                        ]}
+                        actions={
+                            <ActionPanel>
+                                <ActionPanel.Section>
+                                    <Action.Push
+                                        title="Edit Webhook"
+                                        icon={Icon.Pencil}
+                                        target={<WebhookForm webhook={webhook} />}
+                                    />
+                                    <Action
+                                        title={webhook.enabled ? "Disable Webhook" : "Enable Webhook"}
+                                        icon={webhook.enabled ? Icon.Dot : Icon.Globe}
+                                        shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
+                                        onAction={() =>
+                                            updateWebhooks(() => setWebhookEnabled(webhook.id, !webhook.enabled))
+                                        }
+                                    />
+                                    <Action.CopyToClipboard
+                                        title="Copy Secret"
+                                        content={webhook.secret}
+                                        concealed
+                                        shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+                                    />
+                                    {createAction}
+                                </ActionPanel.Section>
+                                <ActionPanel.Section>
+                                    <Action
+                                        title="Delete Webhook"
+                                        icon={Icon.Trash}
+                                        style={Action.Style.Destructive}
+                                        shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                                        onAction={() => handleDelete(webhook)}
+                                    />
+                                </ActionPanel.Section>
+                            </ActionPanel>
+                        }
+                    />
+                ))}
+            </List.Section>
+            <List.Section title="Deliveries">
+                {log.map((delivery) => (
+                    <List.Item
+                        key={delivery.id}
+                        title={delivery.webhookName}
+                        subtitle={`Session ${getSessionEventLabel(delivery.event).toLowerCase()}`}
+                        icon={STATUS_ICONS[delivery.status]}
+                        accessories={getDeliveryAccessories(delivery)}
+                        actions={
+                            <ActionPanel>
+                                <ActionPanel.Section>
+                                    {delivery.status !== DeliveryStatus.DELIVERED && (
+                                        <Action
+                                            title="Retry Now"
+                                            icon={Icon.Upload}
+                                            onAction={() => handleRetry(delivery.id)}
+                                        />
+                                    )}
+                                    <Action.CopyToClipboard title="Copy Payload" content={delivery.body} />
+                                    {delivery.lastError && (
+                                        <Action.CopyToClipboard
+                                            title="Copy Error"
+                                            content={delivery.lastError}
+                                            shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+                                        />
+                                    )}
+                                    {createAction}
+                                </ActionPanel.Section>
+                                <ActionPanel.Section>
+                                    <Action
+                                        title={
+                                            delivery.status === DeliveryStatus.DELIVERED ? "Remove" : "Discard Delivery"
+                                        }
+                                        icon={Icon.Trash}
+                                        style={Action.Style.Destructive}
+                                        shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                                        onAction={() => updateWebhooks(() => discardDelivery(delivery.id))}
+                                    />
+                                    <Action
+                                        title="Clear Delivered"
+                                        icon={Icon.Eraser}
+                                        style={Action.Style.Destructive}
+                                        shortcut={{ modifiers: ["ctrl", "shift"], key: "x" }}
+                                        onAction={() => updateWebhooks(clearDelivered)}
+                                    />
+                                </ActionPanel.Section>
+                            </ActionPanel>
+                        }
+                    />
+                ))}
+            </List.Section>
+            <List.EmptyView
+                title="No webhooks yet"
+                description="Send a signed JSON payload to your own tools when sessions start, complete or change."
+                icon={Icon.Globe}
+                actions={<ActionPanel>{createAction}</ActionPanel>}
+            />
+        </List>
+    )
+}
@@ -0,0 +1,201 @@
+import { Action, ActionPanel, Color, Icon, List, showToast, Toast } from "@raycast/api"
+import { useMemo, useState } from "react"
+import { ProjectForm } from "./components/project-form"
+import { TaskForm } from "./components/task-form"
+import { usePomodoroHydration, usePomodoroStore } from "./store/pomodoro-store"
+import { registerSessionListeners } from "./store/session-listeners"
+import { getTaskLabels, useTaskHydration, useTaskStore } from "./store/task-store"
+import { Project, Task } from "./types/task"
+import { SessionType } from "./types/timer"
+import { isCompletedWork } from "./utils/statistics"
+
+type View = "active" | "completed" | "archived" | "projects"
+
+registerSessionListeners()
+
+function ViewDropdown({ onChange }: { onChange: (value: View) => void }) {
+    return (
+        <List.Dropdown tooltip="Show" storeValue onChange={(value) => onChange(value as View)}>
+            <List.Dropdown.Item title="Active Tasks" value="active" icon={Icon.Circle} />
+            <List.Dropdown.Item title="Completed Tasks" value="completed" icon={Icon.CheckCircle} />
+            <List.Dropdown.Item title="Archived Tasks" value="archived" icon={Icon.Tray} />
+            <List.Dropdown.Item title="Projects" value="projects" icon={Icon.Folder} />
+        </List.Dropdown>
+    )
+}
+
+function CreateActions({ projectId }: { projectId?: string }) {
+    return (
+        <ActionPanel.Section>
+            <Action.Push
+                title="Create Task"
+                icon={Icon.PlusCircle}
+                shortcut={{ modifiers: ["cmd"], key: "n" }}
+                target={<TaskForm defaultProjectId={projectId} />}
+            />
+            <Action.Push
+                title="Create Project"
+                icon={Icon.NewFolder}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "n" }}
+                target={<ProjectForm />}
+            />
+        </ActionPanel.Section>
+    )
+}
+
+export default function Command() {
+    const tasksHydrated = useTaskHydration()
+    const historyHydrated = usePomodoroHydration()
+    const { tasks, projects, setTaskCompleted, setTaskArchived, setProjectArchived } = useTaskStore()
+    const history = usePomodoroStore((state) => state.history)
+    const [view, setView] = useState<View>("active")
+
+    // Both stores must be loaded before editing, since task changes rewrite session history
+    const isLoading = !tasksHydrated || !historyHydrated
+
+    const pomodorosByTask = useMemo(() => {
+        const counts = new Map<string, number>()
+        for (const session of history) {
+            if (session.taskId && isCompletedWork(session)) {
+                counts.set(session.taskId, (counts.get(session.taskId) ?? 0) + 1)
+            }
+        }
+        return counts
+    }, [history])
+
+    async function startPomodoro(task: Task) {
+        const store = usePomodoroStore.getState()
+        store.startTimer(SessionType.WORK)
+        store.assignTaskToSession(getTaskLabels(task))
+        await showToast({ style: Toast.Style.Success, title: "Pomodoro started", message: task.name })
+    }
+
+    function renderTask(task: Task) {
+        const done = pomodorosByTask.get(task.id) ?? 0
+        return (
+            <List.Item
+                key={task.id}
+                title={task.name}
+                icon={
+                    task.completed ? { source: Icon.CheckCircle, tintColor: Color.Green } : { source: Icon.Circle }
+                }
+                accessories={[
+                    {
+                        text: task.estimatedPomodoros ? `${done}/${task.estimatedPomodoros}` : `${done}`,
+                        icon: Icon.Clock,
+                        tooltip: "Completed pomodoros"
+                    },
+                    ...(task.estimatedPomodoros && done > task.estimatedPomodoros
+                        ? [{ tag: { value: "Over estimate", color: Color.Orange } }]
+                        : [])
+                ]}
+                actions={
+                    <ActionPanel>
+                        <ActionPanel.Section>
+                            {!task.completed && !task.archived && (
+                                <Action title="Start Pomodoro" icon={Icon.Play} onAction={() => startPomodoro(task)} />
+                            )}
+                            <Action.Push title="Edit Task" icon={Icon.Pencil} target={<TaskForm task={task} />} />
+                            <Action
+                                title={task.completed ? "Mark as Incomplete" : "Mark as Completed"}
+                                icon={task.completed ? Icon.Circle : Icon.CheckCircle}
+                                shortcut={{ modifiers: ["cmd"], key: "d" }}
+                                onAction={() => setTaskCompleted(task.id, !task.completed)}
+                            />
+                            <Action
+                                title={task.archived ? "Unarchive Task" : "Archive Task"}
+                                icon={Icon.Tray}
+                                shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+                                onAction={() => setTaskArchived(task.id, !task.archived)}
+                            />
+                        </ActionPanel.Section>
+                        <CreateActions projectId={task.projectId} />
+                    </ActionPanel>
+                }
+            />
+        )
+    }
+
+    function renderProject(project: Project) {
+        const projectTasks = tasks.filter((task) => task.projectId === project.id && !task.archived)
+        const openTasks = projectTasks.filter((task) => !task.completed).length
+        const pomodoros = history.filter((session) => session.projectId === project.id && isCompletedWork(session))
+
+        return (
+            <List.Item
+                key={project.id}
+                title={project.name}
+                icon={Icon.Folder}
+                accessories={[
+                    { text: `${openTasks} open`, icon: Icon.Circle, tooltip: "Open tasks" },
+                    { text: `${pomodoros.length}`, icon: Icon.Clock, tooltip: "Completed pomodoros" },
+                    ...(project.archived ? [{ tag: { value: "Archived", color: Color.SecondaryText } }] : [])
+                ]}
+                actions={
+                    <ActionPanel>
+                        <ActionPanel.Section>
+                            <Action.Push
+                                title="Rename Project"
+                                icon={Icon.Pencil}
+                                target={<ProjectForm project={project} />}
+                            />
+                            <Action
+                                title={project.archived ? "Unarchive Project" : "Archive Project"}
+                                icon={Icon.Tray}
+                                shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+                                onAction={() => setProjectArchived(project.id, !project.archived)}
+                            />
+                        </ActionPanel.Section>
+                        <CreateActions projectId={project.id} />
+                    </ActionPanel>
+                }
+            />
+        )
+    }
+
+    const visibleTasks = tasks.filter((task) => {
+        if (view === "archived") return task.archived
+        if (task.archived) return false
+        return view === "completed" ? task.completed : !task.completed
+    })
+    const sections = [
+        ...projects.map((project) => ({
+            id: project.id,
+            title: project.name,
+            tasks: visibleTasks.filter((task) => task.projectId === project.id)
+        })),
+        {
+            id: "none",
+            title: "No Project",
+            tasks: visibleTasks.filter((task) => !projects.some((project) => project.id === task.projectId))
+        }
+    ].filter((section) => section.tasks.length > 0)
+
+    return (
+        <List
+            isLoading={isLoading}
+            searchBarPlaceholder={view === "projects" ? "Search projects..." : "Search tasks..."}
+            searchBarAccessory={<ViewDropdown onChange={setView} />}
+        >
+            {view === "projects"
+                ? projects.map(renderProject)
+                : sections.map((section) => (
+                      <List.Section key={section.id} title={section.title}>
+                          {section.tasks.map(renderTask)}
+                      </List.Section>
+                  ))}
+            {!isLoading && (
+                <List.EmptyView
+                    title={view === "projects" ? "No projects yet" : "No tasks here"}
+                    description="Create tasks and projects to track pomodoros against them."
+                    icon={Icon.BulletPoints}
+                    actions={
+                        <ActionPanel>
+                            <CreateActions />
+                        </ActionPanel>
+                    }
+                />
+            )}
+        </List>
+    )
+}
@@ -0,0 +1,222 @@
+import { Color, Icon, launchCommand, LaunchType, MenuBarExtra, showHUD } from "@raycast/api"
+import { getProgressIcon, usePromise } from "@raycast/utils"
+import { useEffect, useState } from "react"
+import { announceReachedGoals, getAllGoalProgress, getGoalProjectName, useGoalHydration } from "./store/goal-store"
+import { closeBlockedApps, getBlockedProcesses, useFocusHydration, useFocusStore } from "./store/focus-store"
+import { checkForIdle } from "./store/idle-detection"
+import { flushStorage } from "./store/local-storage"
+import { runLatestTimerAction, useAvailableUndo, usePomodoroHydration, usePomodoroStore } from "./store/pomodoro-store"
+import { registerSessionListeners, waitForSessionListeners } from "./store/session-listeners"
+import { IdleResolution, InterruptionType, TimerState } from "./types/timer"
+import { isBlockActive } from "./utils/focus"
+import { formatGoalProgress, getGoalTitle } from "./utils/goals"
+import { findSequence } from "./utils/sequences"
+import { getOpenIdlePause, getTimeRemaining } from "./utils/timer-engine"
+import {
+    formatClockTime,
+    formatTime,
+    getIdleResolutionLabel,
+    getSessionLabel,
+    getSessionTypeIcon,
+    getSessionTypeLabel,
+    getUndoLabel
+} from "./utils/timer-format"
+
+registerSessionListeners()
+
+/**
+ * Run a store action and wait for its hooks, focus mode, notifications, uploads, webhooks and persistence before the menu bar command unloads
+ * Actions the timer state no longer allows, e.g. from a stale menu, are reported instead
+ */
+async function runAction(action: () => void): Promise<void> {
+    await runLatestTimerAction(action)
+    await waitForSessionListeners()
+    await flushStorage()
+}
+
+async function openTimer() {
+    try {
+        await launchCommand({ name: "pomodoro-timer", type: LaunchType.UserInitiated })
+    } catch (error) {
+        await showHUD("❌ Could not open the Pomodoro timer")
+    }
+}
+
+export default function Command() {
+    const hydrated = usePomodoroHydration()
+    const goalsHydrated = useGoalHydration()
+    const focusHydrated = useFocusHydration()
+    const [ready, setReady] = useState(false)
+    const store = usePomodoroStore()
+    const focusEnabled = useFocusStore((state) => state.enabled)
+    const { currentSession, state, stats } = store
+    const timeRemaining = currentSession ? getTimeRemaining(currentSession) : 0
+    const idlePause = currentSession ? getOpenIdlePause(currentSession) : undefined
+    const undo = useAvailableUndo()
+
+    // Every refresh checks whether a blocked app was launched again during the work session
+    const { data: blockedProcesses = [], isLoading: checkingBlockedApps } = usePromise(getBlockedProcesses, [], {
+        execute: hydrated && focusHydrated && isBlockActive(focusEnabled, currentSession, state)
+    })
+
+    // Hydration may have completed sessions that ran out while nothing was open, and we may have walked away
+    // Pause for idle time, notify about completed sessions, announce the goals they reached,
+    // let their hooks and uploads finish and persist everything before the command unloads
+    useEffect(() => {
+        if (!hydrated) return
+
+        async function settle() {
+            await checkForIdle().catch((error) => console.error("Could not check for idle time", error))
+            await Promise.allSettled([announceReachedGoals(), waitForSessionListeners()])
+            await flushStorage()
+            setReady(true)
+        }
+        settle()
+    }, [hydrated])
+
+    const goalProgress = goalsHydrated ? getAllGoalProgress() : []
+
+    const nextType = store.getNextSessionType()
+    const nextSegmentIndex = store.getNextSegmentIndex()
+    const nextSegment =
+        nextSegmentIndex === undefined
+            ? undefined
+            : findSequence(store.activeSequenceId, store.customSequences)?.segments[nextSegmentIndex]
+    const title = currentSession
+        ? `${state === TimerState.PAUSED ? "⏸ " : ""}${Math.ceil(timeRemaining / 60)}m`
+        : undefined
+
+    return (
+        <MenuBarExtra
+            isLoading={!ready || checkingBlockedApps}
+            icon={currentSession ? getSessionTypeIcon(currentSession.type) : Icon.Clock}
+            title={title}
+            tooltip={
+                currentSession
+                    ? `${getSessionLabel(currentSession)} — ${formatTime(timeRemaining)} left`
+                    : "Pomodoro Timer"
+            }
+        >
+            {currentSession ? (
+                <MenuBarExtra.Section title={getSessionLabel(currentSession)}>
+                    <MenuBarExtra.Item
+                        title={`${formatTime(timeRemaining)} left`}
+                        subtitle={state === TimerState.PAUSED ? "Paused" : undefined}
+                        icon={Icon.Clock}
+                    />
+                    {currentSession.taskName && (
+                        <MenuBarExtra.Item
+                            title={currentSession.taskName}
+                            subtitle={currentSession.projectName}
+                            icon={Icon.Pencil}
+                        />
+                    )}
+                    {state === TimerState.RUNNING ? (
+                        <MenuBarExtra.Item
+                            title="Pause"
+                            icon={Icon.Pause}
+                            onAction={() => runAction(store.pauseTimer)}
+                        />
+                    ) : (
+                        <MenuBarExtra.Item
+                            title="Resume"
+                            icon={Icon.Play}
+                            onAction={() => runAction(store.resumeTimer)}
+                        />
+                    )}
+                    <MenuBarExtra.Submenu
+                        title={`Log Interruption${currentSession.interruptions.length > 0 ? ` (${currentSession.interruptions.length})` : ""}`}
+                        icon={Icon.Bell}
+                    >
+                        <MenuBarExtra.Item
+                            title="External"
+                            icon={Icon.TwoPeople}
+                            onAction={() => runAction(() => store.logInterruption(InterruptionType.EXTERNAL))}
+                        />
+                        <MenuBarExtra.Item
+                            title="Internal"
+                            icon={Icon.LightBulb}
+                            onAction={() => runAction(() => store.logInterruption(InterruptionType.INTERNAL))}
+                        />
+                    </MenuBarExtra.Submenu>
+                    <MenuBarExtra.Item
+                        title="Skip Session"
+                        icon={Icon.Forward}
+                        onAction={() => runAction(store.skipSession)}
+                    />
+                    <MenuBarExtra.Item
+                        title="Stop Session"
+                        icon={Icon.Stop}
+                        onAction={() => runAction(store.stopTimer)}
+                    />
+                </MenuBarExtra.Section>
+            ) : (
+                <MenuBarExtra.Section>
+                    <MenuBarExtra.Item title="No session running" />
+                </MenuBarExtra.Section>
+            )}
+            {undo && (
+                <MenuBarExtra.Section>
+                    <MenuBarExtra.Item
+                        title={getUndoLabel(undo.action)}
+                        icon={Icon.Undo}
+                        onAction={() => runAction(store.undoLastAction)}
+                    />
+                </MenuBarExtra.Section>
+            )}
+            {idlePause && (
+                <MenuBarExtra.Section title={`Away since ${formatClockTime(idlePause.start)}`}>
+                    {Object.values(IdleResolution).map((resolution) => (
+                        <MenuBarExtra.Item
+                            key={resolution}
+                            title={getIdleResolutionLabel(resolution)}
+                            onAction={() => runAction(() => store.resolveIdle(resolution))}
+                        />
+                    ))}
+                </MenuBarExtra.Section>
+            )}
+            {blockedProcesses.length > 0 && (
+                <MenuBarExtra.Section title="Blocked Apps Running">
+                    {blockedProcesses.map((process) => (
+                        <MenuBarExtra.Item
+                            key={process.name}
+                            title={`Close ${process.name}`}
+                            icon={{ source: Icon.ExclamationMark, tintColor: Color.Red }}
+                            onAction={() => closeBlockedApps([process])}
+                        />
+                    ))}
+                </MenuBarExtra.Section>
+            )}
+            <MenuBarExtra.Section>
+                <MenuBarExtra.Item
+                    title={`Start Next: ${nextSegment?.name ?? getSessionTypeLabel(nextType)}`}
+                    icon={getSessionTypeIcon(nextType)}
+                    onAction={() =>
+                        runAction(() =>
+                            nextSegmentIndex === undefined
+                                ? store.startTimer(nextType)
+                                : store.startSegment(nextSegmentIndex)
+                        )
+                    }
+                />
+                <MenuBarExtra.Item title="Open Pomodoro Timer" icon={Icon.AppWindow} onAction={openTimer} />
+            </MenuBarExtra.Section>
+            <MenuBarExtra.Section>
+                <MenuBarExtra.Item
+                    title={`Today: ${stats.todaysSessions} ${stats.todaysSessions === 1 ? "pomodoro" : "pomodoros"}`}
+                    subtitle={stats.streakCount > 0 ? `${stats.streakCount}-day streak` : undefined}
+                    icon={Icon.BarChart}
+                />
+                {goalProgress.map((progress) => (
+                    <MenuBarExtra.Item
+                        key={progress.goal.id}
+                        title={getGoalTitle(progress.goal, getGoalProjectName(progress.goal))}
+                        subtitle={formatGoalProgress(progress)}
+                        icon={getProgressIcon(progress.fraction, progress.reached ? Color.Green : Color.Orange)}
+                        onAction={openTimer}
+                    />
+                ))}
+            </MenuBarExtra.Section>
+        </MenuBarExtra>
+    )
+}
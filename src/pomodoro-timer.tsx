@@ -0,0 +1,706 @@
+import {
+    Action,
+    ActionPanel,
+    Alert,
+    Color,
+    confirmAlert,
+    Icon,
+    LaunchProps,
+    List,
+    showToast,
+    Toast,
+    useNavigation
+} from "@raycast/api"
+import { getProgressIcon } from "@raycast/utils"
+import { useEffect, useRef, useState } from "react"
+import { FocusList } from "./components/focus-list"
+import { GoalForm } from "./components/goal-form"
+import { HookList } from "./components/hook-list"
+import { IdleResolutionView } from "./components/idle-resolution"
+import { InterruptionForm } from "./components/interruption-form"
+import { NotificationForm } from "./components/notification-form"
+import { ProfileForm } from "./components/profile-form"
+import { ReflectionForm } from "./components/reflection-form"
+import { SequenceForm } from "./components/sequence-form"
+import { SessionTaskForm } from "./components/session-task-form"
+import { StatsDashboard } from "./components/stats-dashboard"
+import { SyncList } from "./components/sync-list"
+import { WebhookList } from "./components/webhook-list"
+import { useBlockedAppWarnings, useFocusStore } from "./store/focus-store"
+import { runLaunchContext } from "./store/launch-context"
+import { announceReachedGoals, useGoalHydration, useGoalStore } from "./store/goal-store"
+import { useIdleDetection } from "./store/idle-detection"
+import { useLastMinuteTicks } from "./store/notification-store"
+import {
+    findProfile,
+    getSessionDuration,
+    reloadPomodoroStore,
+    runLatestTimerAction,
+    useAvailableUndo,
+    usePomodoroHydration,
+    usePomodoroStore
+} from "./store/pomodoro-store"
+import { registerSessionListeners } from "./store/session-listeners"
+import { useTaskHydration, useTaskStore } from "./store/task-store"
+import { FocusGoal } from "./types/goal"
+import {
+    InterruptionType,
+    SessionSequence,
+    SessionType,
+    TimerLaunchContext,
+    TimerProfile,
+    TimerState
+} from "./types/timer"
+import { createStartDeeplink, parseLaunchContext } from "./utils/deeplinks"
+import { BUILT_IN_PROFILES, describeSettings, loadConfigFromPreferences, showConfigIssues } from "./utils/config"
+import { isBlockActive } from "./utils/focus"
+import { formatGoalProgress, getGoalProgress, getGoalTitle } from "./utils/goals"
+import { BUILT_IN_SEQUENCES, describeSequence, findSequence, getSegmentType } from "./utils/sequences"
+import { isCompletedWork } from "./utils/statistics"
+import { getExpectedEndTime, getOpenIdlePause, getTimeRemaining } from "./utils/timer-engine"
+import {
+    formatClockTime,
+    formatTime,
+    getSessionLabel,
+    getSessionTypeIcon,
+    getSessionTypeLabel,
+    getTimerStateLabel,
+    getUndoLabel
+} from "./utils/timer-format"
+
+const SESSION_TYPES = [SessionType.WORK, SessionType.SHORT_BREAK, SessionType.LONG_BREAK]
+const PREFERENCES_PROFILE = "preferences"
+const SEQUENCE_PREFIX = "sequence:"
+
+registerSessionListeners()
+
+function ProfileDropdown({
+    value,
+    customProfiles,
+    customSequences,
+    onChange
+}: {
+    value: string
+    customProfiles: TimerProfile[]
+    customSequences: SessionSequence[]
+    onChange: (value: string) => void
+}) {
+    const { config: preferencesConfig } = loadConfigFromPreferences()
+
+    return (
+        <List.Dropdown tooltip="Timer Profile" value={value} onChange={onChange}>
+            <List.Dropdown.Item
+                title={`Preferences (${describeSettings(preferencesConfig)})`}
+                value={PREFERENCES_PROFILE}
+                icon={Icon.Gear}
+            />
+            <List.Dropdown.Section title="Profiles">
+                {[...BUILT_IN_PROFILES, ...customProfiles].map((profile) => (
+                    <List.Dropdown.Item
+                        key={profile.id}
+                        title={`${profile.name} (${describeSettings(profile)})`}
+                        value={profile.id}
+                        icon={Icon.Stopwatch}
+                    />
+                ))}
+            </List.Dropdown.Section>
+            <List.Dropdown.Section title="Sequences">
+                {[...BUILT_IN_SEQUENCES, ...customSequences].map((sequence) => (
+                    <List.Dropdown.Item
+                        key={sequence.id}
+                        title={`${sequence.name} (${describeSequence(sequence)})`}
+                        value={`${SEQUENCE_PREFIX}${sequence.id}`}
+                        icon={Icon.List}
+                    />
+                ))}
+            </List.Dropdown.Section>
+        </List.Dropdown>
+    )
+}
+
+function ProfileActions({ activeProfile }: { activeProfile?: TimerProfile }) {
+    const isCustom = activeProfile && !BUILT_IN_PROFILES.some((profile) => profile.id === activeProfile.id)
+
+    async function handleDelete(profile: TimerProfile) {
+        const confirmed = await confirmAlert({
+            title: "Delete Profile",
+            message: `Are you sure you want to delete "${profile.name}"? The timer goes back to your preferences.`,
+            primaryAction: {
+                title: "Delete",
+                style: Alert.ActionStyle.Destructive
+            }
+        })
+
+        if (confirmed) {
+            usePomodoroStore.getState().deleteProfile(profile.id)
+        }
+    }
+
+    return (
+        <ActionPanel.Section title="Profiles">
+            <Action.Push
+                title="Create Profile"
+                icon={Icon.PlusCircle}
+                shortcut={{ modifiers: ["cmd"], key: "n" }}
+                target={<ProfileForm activate />}
+            />
+            {isCustom && (
+                <Action.Push
+                    title="Edit Profile"
+                    icon={Icon.Pencil}
+                    shortcut={{ modifiers: ["cmd"], key: "e" }}
+                    target={<ProfileForm profile={activeProfile} />}
+                />
+            )}
+            {isCustom && (
+                <Action
+                    title="Delete Profile"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                    onAction={() => handleDelete(activeProfile)}
+                />
+            )}
+        </ActionPanel.Section>
+    )
+}
+
+function SequenceActions({ activeSequence }: { activeSequence?: SessionSequence }) {
+    const isCustom = activeSequence && !BUILT_IN_SEQUENCES.some((sequence) => sequence.id === activeSequence.id)
+
+    async function handleDelete(sequence: SessionSequence) {
+        const confirmed = await confirmAlert({
+            title: "Delete Sequence",
+            message: `Are you sure you want to delete "${sequence.name}"? The timer goes back to the work/break cycle.`,
+            primaryAction: {
+                title: "Delete",
+                style: Alert.ActionStyle.Destructive
+            }
+        })
+
+        if (confirmed) {
+            usePomodoroStore.getState().deleteSequence(sequence.id)
+        }
+    }
+
+    return (
+        <ActionPanel.Section title="Sequences">
+            <Action.Push
+                title="Create Sequence"
+                icon={Icon.PlusCircle}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "n" }}
+                target={<SequenceForm activate />}
+            />
+            {isCustom && (
+                <Action.Push
+                    title="Edit Sequence"
+                    icon={Icon.Pencil}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}
+                    target={<SequenceForm sequence={activeSequence} />}
+                />
+            )}
+            {isCustom && (
+                <Action
+                    title="Delete Sequence"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl", "shift"], key: "x" }}
+                    onAction={() => handleDelete(activeSequence)}
+                />
+            )}
+        </ActionPanel.Section>
+    )
+}
+
+function GoalActions({ goal }: { goal?: FocusGoal }) {
+    async function handleDelete(goal: FocusGoal) {
+        const confirmed = await confirmAlert({
+            title: "Delete Goal",
+            message: "Are you sure you want to delete this goal?",
+            primaryAction: {
+                title: "Delete",
+                style: Alert.ActionStyle.Destructive
+            }
+        })
+
+        if (confirmed) {
+            useGoalStore.getState().deleteGoal(goal.id)
+        }
+    }
+
+    return (
+        <ActionPanel.Section title="Goals">
+            {goal && (
+                <Action.Push
+                    title="Edit Goal"
+                    icon={Icon.Pencil}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "g" }}
+                    target={<GoalForm goal={goal} />}
+                />
+            )}
+            <Action.Push
+                title="Create Goal"
+                icon={Icon.BullsEye}
+                shortcut={{ modifiers: ["cmd"], key: "g" }}
+                target={<GoalForm />}
+            />
+            {goal && (
+                <Action
+                    title="Delete Goal"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "g" }}
+                    onAction={() => handleDelete(goal)}
+                />
+            )}
+        </ActionPanel.Section>
+    )
+}
+
+export default function Command(props: LaunchProps<{ launchContext?: TimerLaunchContext }>) {
+    const { push } = useNavigation()
+    const hydrated = usePomodoroHydration()
+    const tasksHydrated = useTaskHydration()
+    const goalsHydrated = useGoalHydration()
+    const store = usePomodoroStore()
+    const goals = useGoalStore((state) => state.goals)
+    const focusEnabled = useFocusStore((state) => state.enabled)
+    const projects = useTaskStore((state) => state.projects)
+    const lastSessionId = useRef<string | undefined>(undefined)
+    const launched = useRef(false)
+    const [now, setNow] = useState(() => new Date())
+    const undo = useAvailableUndo()
+    const {
+        currentSession,
+        history,
+        state,
+        sessionCount,
+        config,
+        customProfiles,
+        activeProfileId,
+        customSequences,
+        activeSequenceId
+    } = store
+    const timeRemaining = currentSession ? getTimeRemaining(currentSession, now) : 0
+
+    useEffect(() => {
+        showConfigIssues(loadConfigFromPreferences().issues)
+    }, [])
+
+    // Remaining time is derived from the wall clock, so tick every second while the view is open
+    // Other commands may change the timer meanwhile, so their changes are picked up first
+    useEffect(() => {
+        const interval = setInterval(() => {
+            reloadPomodoroStore()
+                .then(() => {
+                    // Writing before hydration would overwrite the persisted state
+                    if (usePomodoroStore.persist.hasHydrated()) {
+                        usePomodoroStore.getState().syncTimer()
+                    }
+                })
+                .catch((error) => console.error("Could not reload the timer", error))
+                .finally(() => setNow(new Date()))
+        }, 1000)
+        return () => clearInterval(interval)
+    }, [])
+
+    // Ask for a reflection when a work session completes while the view is open
+    useEffect(() => {
+        if (!hydrated) return
+
+        const last = history[history.length - 1]
+        const isNew = lastSessionId.current !== undefined && last && last.id !== lastSessionId.current
+        lastSessionId.current = last?.id ?? ""
+
+        if (isNew && config.reflectAfterWork && isCompletedWork(last) && !last.reflection) {
+            push(<ReflectionForm session={last} />)
+        }
+    }, [hydrated, history])
+
+    // Deeplinks, quicklinks and other commands say what to do through the launch context
+    useEffect(() => {
+        if (!hydrated || !tasksHydrated || !props.launchContext || launched.current) return
+        launched.current = true
+
+        try {
+            showToast({ style: Toast.Style.Success, title: runLaunchContext(parseLaunchContext(props.launchContext)) })
+        } catch (error) {
+            showToast({
+                style: Toast.Style.Failure,
+                title: error instanceof Error ? error.message : "Could not run the launch action"
+            })
+        }
+    }, [hydrated, tasksHydrated])
+
+    useBlockedAppWarnings(hydrated && isBlockActive(focusEnabled, currentSession, state))
+    useLastMinuteTicks(currentSession, state, timeRemaining)
+
+    // Once we are back from an automatic pause, ask how the time away counts
+    useIdleDetection(hydrated, () => push(<IdleResolutionView />))
+    const idlePause = currentSession ? getOpenIdlePause(currentSession) : undefined
+
+    // Minutes of focus add up while a session runs, so check the goals every minute as well
+    const remainingMinutes = Math.floor(timeRemaining / 60)
+    useEffect(() => {
+        if (hydrated) {
+            announceReachedGoals()
+        }
+    }, [hydrated, history, remainingMinutes])
+
+    const nextType = store.getNextSessionType()
+    const activeProfile = findProfile(activeProfileId, customProfiles)
+    const activeSequence = findSequence(activeSequenceId, customSequences)
+    const nextSegmentIndex = store.getNextSegmentIndex()
+    const profileValue = activeSequence
+        ? `${SEQUENCE_PREFIX}${activeSequence.id}`
+        : (activeProfile?.id ?? PREFERENCES_PROFILE)
+
+    // A sequence replaces the work/break cycle; picking a profile goes back to it
+    function handleProfileChange(value: string) {
+        if (!hydrated || value === profileValue) return
+
+        if (value.startsWith(SEQUENCE_PREFIX)) {
+            store.activateSequence(value.slice(SEQUENCE_PREFIX.length))
+        } else {
+            store.activateSequence(undefined)
+            store.activateProfile(value === PREFERENCES_PROFILE ? undefined : value)
+        }
+    }
+
+    const goalProgress = goals.map((goal) =>
+        getGoalProgress(goal, currentSession ? [...history, currentSession] : history)
+    )
+
+    // Stopping, resetting and skipping throw progress away, so offer to take them back right away
+    async function runUndoable(action: () => void, title: string) {
+        if (!(await runLatestTimerAction(action))) return
+
+        await showToast({
+            style: Toast.Style.Success,
+            title,
+            primaryAction: {
+                title: "Undo",
+                shortcut: { modifiers: ["cmd"], key: "z" },
+                onAction: (toast) => {
+                    toast.hide()
+                    runLatestTimerAction(usePomodoroStore.getState().undoLastAction)
+                }
+            }
+        })
+    }
+
+    const managementActions = (
+        <>
+            {undo && (
+                <Action
+                    title={getUndoLabel(undo.action)}
+                    icon={Icon.Undo}
+                    shortcut={{ modifiers: ["cmd"], key: "z" }}
+                    onAction={() => runLatestTimerAction(store.undoLastAction)}
+                />
+            )}
+            <ProfileActions activeProfile={activeProfile} />
+            <SequenceActions activeSequence={activeSequence} />
+            <GoalActions />
+            <Action.Push
+                title="Manage Hooks"
+                icon={Icon.Bolt}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "h" }}
+                target={<HookList />}
+            />
+            <Action.Push
+                title="Focus Mode"
+                icon={Icon.Eye}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "b" }}
+                target={<FocusList />}
+            />
+            <Action.Push
+                title="Notifications"
+                icon={Icon.Bell}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "o" }}
+                target={<NotificationForm />}
+            />
+            <Action.Push
+                title="Show Statistics"
+                icon={Icon.BarChart}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+                target={<StatsDashboard history={history} />}
+            />
+            <Action.Push
+                title="Time Tracker Sync"
+                icon={Icon.Upload}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "y" }}
+                target={<SyncList />}
+            />
+            <Action.Push
+                title="Manage Webhooks"
+                icon={Icon.Globe}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "w" }}
+                target={<WebhookList />}
+            />
+        </>
+    )
+
+    return (
+        <List
+            isLoading={!hydrated || !goalsHydrated}
+            navigationTitle="Pomodoro Timer"
+            searchBarAccessory={
+                hydrated ? (
+                    <ProfileDropdown
+                        value={profileValue}
+                        customProfiles={customProfiles}
+                        customSequences={customSequences}
+                        onChange={handleProfileChange}
+                    />
+                ) : undefined
+            }
+        >
+            {currentSession && (
+                <List.Section title="Current Session">
+                    <List.Item
+                        title={formatTime(timeRemaining)}
+                        subtitle={getSessionLabel(currentSession)}
+                        icon={getSessionTypeIcon(currentSession.type)}
+                        accessories={[
+                            ...(currentSession.taskName ? [{ icon: Icon.Pencil, text: currentSession.taskName }] : []),
+                            ...(currentSession.projectName
+                                ? [{ icon: Icon.Folder, text: currentSession.projectName }]
+                                : []),
+                            ...(currentSession.interruptions.length > 0
+                                ? [
+                                      {
+                                          icon: Icon.Bell,
+                                          text: currentSession.interruptions.length.toString(),
+                                          tooltip: "Interruptions"
+                                      }
+                                  ]
+                                : []),
+                            state === TimerState.RUNNING
+                                ? {
+                                      icon: Icon.Clock,
+                                      text: formatClockTime(getExpectedEndTime(currentSession)),
+                                      tooltip: "Ends at"
+                                  }
+                                : {
+                                      tag: {
+                                          value: getTimerStateLabel(state),
+                                          color: Color.Orange
+                                      }
+                                  }
+                        ]}
+                        actions={
+                            <ActionPanel>
+                                <ActionPanel.Section>
+                                    {state === TimerState.RUNNING ? (
+                                        <Action
+                                            title="Pause"
+                                            icon={Icon.Pause}
+                                            onAction={() => runLatestTimerAction(store.pauseTimer)}
+                                        />
+                                    ) : (
+                                        <Action
+                                            title="Resume"
+                                            icon={Icon.Play}
+                                            onAction={() => runLatestTimerAction(store.resumeTimer)}
+                                        />
+                                    )}
+                                    <Action
+                                        title="Skip Session"
+                                        icon={Icon.Forward}
+                                        shortcut={{ modifiers: ["cmd"], key: "s" }}
+                                        onAction={() => runUndoable(store.skipSession, "Session skipped")}
+                                    />
+                                    <Action
+                                        title="Stop Session"
+                                        icon={Icon.Stop}
+                                        shortcut={{ modifiers: ["cmd"], key: "." }}
+                                        onAction={() => runUndoable(store.stopTimer, "Session stopped")}
+                                    />
+                                </ActionPanel.Section>
+                                <ActionPanel.Section title="Interruptions">
+                                    <Action.Push
+                                        title="Log External Interruption"
+                                        icon={Icon.TwoPeople}
+                                        shortcut={{ modifiers: ["cmd"], key: "i" }}
+                                        target={<InterruptionForm type={InterruptionType.EXTERNAL} />}
+                                    />
+                                    <Action.Push
+                                        title="Log Internal Interruption"
+                                        icon={Icon.LightBulb}
+                                        shortcut={{ modifiers: ["cmd", "shift"], key: "i" }}
+                                        target={<InterruptionForm type={InterruptionType.INTERNAL} />}
+                                    />
+                                </ActionPanel.Section>
+                                <ActionPanel.Section>
+                                    <Action.Push
+                                        title="Set Task"
+                                        icon={Icon.Pencil}
+                                        shortcut={{ modifiers: ["cmd"], key: "t" }}
+                                        target={
+                                            <SessionTaskForm
+                                                labels={currentSession}
+                                                onSubmit={(labels) =>
+                                                    runLatestTimerAction(() => store.assignTaskToSession(labels))
+                                                }
+                                            />
+                                        }
+                                    />
+                                    {currentSession.taskName && (
+                                        <Action.CopyToClipboard
+                                            title="Copy Deeplink"
+                                            content={createStartDeeplink(currentSession)}
+                                            shortcut={{ modifiers: ["cmd", "shift"], key: "k" }}
+                                        />
+                                    )}
+                                    {currentSession.taskName && (
+                                        <Action.CreateQuicklink
+                                            title="Create Quicklink"
+                                            quicklink={{
+                                                name: `Start ${currentSession.taskName}`,
+                                                link: createStartDeeplink(currentSession)
+                                            }}
+                                        />
+                                    )}
+                                    <Action
+                                        title="Reset Cycle"
+                                        icon={Icon.ArrowCounterClockwise}
+                                        style={Action.Style.Destructive}
+                                        shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+                                        onAction={() => runUndoable(store.resetTimer, "Cycle reset")}
+                                    />
+                                </ActionPanel.Section>
+                                {managementActions}
+                            </ActionPanel>
+                        }
+                    />
+                    {idlePause && (
+                        <List.Item
+                            title={`Away since ${formatClockTime(idlePause.start)}`}
+                            subtitle="Paused automatically"
+                            icon={{ source: Icon.Moon, tintColor: Color.Orange }}
+                            actions={
+                                <ActionPanel>
+                                    <Action.Push
+                                        title="Settle Idle Time"
+                                        icon={Icon.Clock}
+                                        target={<IdleResolutionView />}
+                                    />
+                                </ActionPanel>
+                            }
+                        />
+                    )}
+                </List.Section>
+            )}
+            {activeSequence ? (
+                <List.Section title={`Start · ${activeSequence.name}`}>
+                    {activeSequence.segments.map((segment, index) => (
+                        <List.Item
+                            key={index}
+                            title={segment.name}
+                            subtitle={segment.countsAsWork ? "Work" : "Break"}
+                            icon={getSessionTypeIcon(getSegmentType(segment))}
+                            accessories={[
+                                ...(index === nextSegmentIndex ? [{ tag: { value: "Next", color: Color.Green } }] : []),
+                                { text: formatTime(segment.duration * 60) }
+                            ]}
+                            actions={
+                                <ActionPanel>
+                                    <Action
+                                        title={`Start ${segment.name}`}
+                                        icon={Icon.Play}
+                                        onAction={() => runLatestTimerAction(() => store.startSegment(index))}
+                                    />
+                                    <Action.Push
+                                        title="Start with Task"
+                                        icon={Icon.Pencil}
+                                        shortcut={{ modifiers: ["cmd"], key: "t" }}
+                                        target={
+                                            <SessionTaskForm
+                                                title={`Start ${segment.name}`}
+                                                labels={currentSession ?? undefined}
+                                                onSubmit={(labels) =>
+                                                    runLatestTimerAction(() => {
+                                                        store.startSegment(index)
+                                                        store.assignTaskToSession(labels)
+                                                    })
+                                                }
+                                            />
+                                        }
+                                    />
+                                    {managementActions}
+                                </ActionPanel>
+                            }
+                        />
+                    ))}
+                </List.Section>
+            ) : (
+                <List.Section title="Start" subtitle={`${sessionCount} work sessions this cycle`}>
+                    {SESSION_TYPES.map((type) => (
+                        <List.Item
+                            key={type}
+                            title={getSessionTypeLabel(type)}
+                            icon={getSessionTypeIcon(type)}
+                            accessories={[
+                                ...(type === nextType ? [{ tag: { value: "Next", color: Color.Green } }] : []),
+                                { text: formatTime(getSessionDuration(type, config)) }
+                            ]}
+                            actions={
+                                <ActionPanel>
+                                    <Action
+                                        title={`Start ${getSessionTypeLabel(type)}`}
+                                        icon={Icon.Play}
+                                        onAction={() => runLatestTimerAction(() => store.startTimer(type))}
+                                    />
+                                    <Action.Push
+                                        title="Start with Task"
+                                        icon={Icon.Pencil}
+                                        shortcut={{ modifiers: ["cmd"], key: "t" }}
+                                        target={
+                                            <SessionTaskForm
+                                                title={`Start ${getSessionTypeLabel(type)}`}
+                                                labels={currentSession ?? undefined}
+                                                onSubmit={(labels) =>
+                                                    runLatestTimerAction(() => {
+                                                        store.startTimer(type)
+                                                        store.assignTaskToSession(labels)
+                                                    })
+                                                }
+                                            />
+                                        }
+                                    />
+                                    {managementActions}
+                                </ActionPanel>
+                            }
+                        />
+                    ))}
+                </List.Section>
+            )}
+            {goalProgress.length > 0 && (
+                <List.Section title="Goals">
+                    {goalProgress.map((progress) => (
+                        <List.Item
+                            key={progress.goal.id}
+                            title={getGoalTitle(
+                                progress.goal,
+                                projects.find((project) => project.id === progress.goal.projectId)?.name
+                            )}
+                            icon={getProgressIcon(progress.fraction, progress.reached ? Color.Green : Color.Orange)}
+                            accessories={[
+                                ...(progress.reached ? [{ tag: { value: "Reached", color: Color.Green } }] : []),
+                                { text: formatGoalProgress(progress) }
+                            ]}
+                            actions={
+                                <ActionPanel>
+                                    <GoalActions goal={progress.goal} />
+                                    <ProfileActions activeProfile={activeProfile} />
+                                    <SequenceActions activeSequence={activeSequence} />
+                                </ActionPanel>
+                            }
+                        />
+                    ))}
+                </List.Section>
+            )}
+        </List>
+    )
+}
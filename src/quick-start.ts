@@ -0,0 +1,75 @@
+import { LaunchProps, showHUD } from "@raycast/api"
+import { runLaunchContext, startSession } from "./store/launch-context"
+import { flushStorage } from "./store/local-storage"
+import { hydratePomodoroStore, usePomodoroStore } from "./store/pomodoro-store"
+import { registerSessionListeners, waitForSessionListeners } from "./store/session-listeners"
+import { hydrateTaskStore } from "./store/task-store"
+import { LaunchAction, SessionType, TimerLaunchContext, TimerState } from "./types/timer"
+import { parseLaunchContext } from "./utils/deeplinks"
+
+registerSessionListeners()
+
+/**
+ * Split a "Task @project" argument into task and project names
+ */
+function parseTaskArgument(value: string): { taskName?: string; projectName?: string } {
+    const separator = value.lastIndexOf("@")
+    if (separator === -1) {
+        return { taskName: value.trim() || undefined }
+    }
+
+    return {
+        taskName: value.slice(0, separator).trim() || undefined,
+        projectName: value.slice(separator + 1).trim() || undefined
+    }
+}
+
+/**
+ * Parse the duration override in minutes, returning seconds
+ */
+function parseDurationArgument(value: string): number | undefined {
+    if (!value.trim()) {
+        return undefined
+    }
+
+    const minutes = Number(value.trim())
+    if (!Number.isFinite(minutes) || minutes <= 0) {
+        throw new Error(`"${value}" is not a valid number of minutes`)
+    }
+    return Math.round(minutes * 60)
+}
+
+export default async function Command(
+    props: LaunchProps<{ arguments: Arguments.QuickStart; launchContext?: TimerLaunchContext }>
+) {
+    const { type, task = "", duration = "" } = props.arguments
+
+    try {
+        await Promise.all([hydratePomodoroStore(), hydrateTaskStore()])
+
+        // Deeplinks, quicklinks and other commands say what to do through the launch context
+        if (props.launchContext) {
+            await showHUD(runLaunchContext(parseLaunchContext(props.launchContext)))
+            return
+        }
+
+        const store = usePomodoroStore.getState()
+        const hasArguments = Boolean(type || task.trim() || duration.trim())
+
+        // Without arguments the command doubles as a pause/resume hotkey
+        if (store.currentSession && !hasArguments) {
+            const action = store.state === TimerState.RUNNING ? LaunchAction.PAUSE : LaunchAction.RESUME
+            await showHUD(runLaunchContext({ action }))
+            return
+        }
+
+        const { taskName, projectName } = parseTaskArgument(task)
+        const sessionType = type ? (type as SessionType) : undefined
+        await showHUD(startSession(sessionType, taskName, projectName, parseDurationArgument(duration)))
+    } catch (error) {
+        await showHUD(`❌ ${error instanceof Error ? error.message : "Could not start the timer"}`)
+    } finally {
+        await waitForSessionListeners()
+        await flushStorage()
+    }
+}
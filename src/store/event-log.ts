@@ -0,0 +1,183 @@
+/**
+ * Append-only log of timer events, kept apart from the timer store so a corrupted state can be rebuilt from it
+ * Entries are stored per day, so an append only rewrites the entries of that day
+ */
+
+import { LocalStorage } from "@raycast/api"
+import { randomUUID } from "crypto"
+import { LogEntryKind, TimerLogEntry } from "../types/event-log"
+import { PomodoroState, TimerSession } from "../types/timer"
+import { getLogDay, getLogKey, LOG_KEY_PREFIX, parseLogEntries, rebuildHistory } from "../utils/event-log"
+import { hydrateStore, trackWrite } from "./local-storage"
+import { onSessionEvent, usePomodoroStore } from "./pomodoro-store"
+
+const STARTED_KEY = "pomodoro-log-started"
+
+// Distributes over the union, so each kind keeps its own fields
+type NewLogEntry<Entry = TimerLogEntry> = Entry extends TimerLogEntry ? Omit<Entry, "id" | "at"> : never
+
+// Appends run one after another, each reading the entries the previous one wrote
+let queue: Promise<void> = Promise.resolve()
+let registered = false
+let replacing = false
+
+/**
+ * Queue a change of the stored log; `flushStorage` waits for it
+ */
+function enqueue(change: () => Promise<void>, description: string): void {
+    queue = queue.then(change).catch((error) => console.error(`Could not ${description}`, error))
+    trackWrite(queue)
+}
+
+/**
+ * Add entries to the days they belong to
+ */
+async function writeEntries(entries: TimerLogEntry[]): Promise<void> {
+    const days = new Map<string, TimerLogEntry[]>()
+    for (const entry of entries) {
+        const day = getLogDay(entry.at)
+        days.set(day, [...(days.get(day) ?? []), entry])
+    }
+
+    for (const [day, added] of days) {
+        const stored = await readLogDay(day)
+        await LocalStorage.setItem(getLogKey(day), JSON.stringify([...stored, ...added]))
+    }
+}
+
+function append(entry: NewLogEntry): void {
+    const logged = { ...entry, id: randomUUID(), at: new Date() } as TimerLogEntry
+    enqueue(() => writeEntries([logged]), `log the ${entry.kind} entry`)
+}
+
+/**
+ * Record the sessions that were already in the history before the log existed,
+ * so a rebuild does not lose them
+ */
+function startLog(): void {
+    enqueue(async () => {
+        if (await LocalStorage.getItem<string>(STARTED_KEY)) return
+
+        const { history } = usePomodoroStore.getState()
+        await writeEntries(
+            history.map((session) => ({
+                id: randomUUID(),
+                at: session.endTime ?? session.startTime,
+                kind: LogEntryKind.RECORD,
+                session
+            }))
+        )
+        await LocalStorage.setItem(STARTED_KEY, new Date().toISOString())
+    }, "start the event log")
+}
+
+function isSameSession(a: TimerSession, b: TimerSession | undefined): boolean {
+    return !!b && JSON.stringify(a) === JSON.stringify(b)
+}
+
+function getConfigSnapshot(state: PomodoroState) {
+    return {
+        config: state.config,
+        activeProfileId: state.activeProfileId,
+        activeSequenceId: state.activeSequenceId
+    }
+}
+
+/**
+ * Log settings changes and history edits that do not come with a session event
+ */
+function logStoreChanges(state: PomodoroState, previous: PomodoroState): void {
+    const config = getConfigSnapshot(state)
+    if (JSON.stringify(config) !== JSON.stringify(getConfigSnapshot(previous))) {
+        append({ kind: LogEntryKind.CONFIG, ...config })
+    }
+
+    if (state.history === previous.history) return
+
+    // The session that just finished is logged by its session event
+    const finishedId = previous.currentSession?.id
+    const before = new Map(previous.history.map((session) => [session.id, session]))
+    for (const session of state.history) {
+        if (session.id !== finishedId && !isSameSession(session, before.get(session.id))) {
+            append({ kind: LogEntryKind.RECORD, session })
+        }
+    }
+
+    const after = new Set(state.history.map((session) => session.id))
+    for (const session of previous.history) {
+        if (!after.has(session.id)) {
+            append({ kind: LogEntryKind.DELETE, sessionId: session.id })
+        }
+    }
+}
+
+/**
+ * Log every session event and every change of the settings or the history from now on
+ * Call at the top of every command that changes the timer, like `registerLifecycleHooks`
+ */
+export function registerEventLog(): void {
+    if (registered) return
+    registered = true
+
+    onSessionEvent((event, session) => {
+        append({ kind: LogEntryKind.SESSION, event, session })
+    })
+
+    usePomodoroStore.subscribe((state, previous) => {
+        // Loading the persisted state is not a change
+        if (!usePomodoroStore.persist.hasHydrated() || replacing) return
+        logStoreChanges(state, previous)
+    })
+
+    if (usePomodoroStore.persist.hasHydrated()) {
+        startLog()
+    } else {
+        usePomodoroStore.persist.onFinishHydration(startLog)
+    }
+}
+
+/**
+ * Days that have log entries, most recent first, e.g. "2024-05-31"
+ */
+export async function getLogDays(): Promise<string[]> {
+    const items = await LocalStorage.allItems()
+    return Object.keys(items)
+        .filter((key) => key.startsWith(LOG_KEY_PREFIX))
+        .map((key) => key.slice(LOG_KEY_PREFIX.length))
+        .sort()
+        .reverse()
+}
+
+/**
+ * Raw log entries of one day, in the order they were written
+ */
+export async function readLogDay(day: string): Promise<TimerLogEntry[]> {
+    const text = await LocalStorage.getItem<string>(getLogKey(day))
+    return text ? parseLogEntries(text) : []
+}
+
+/**
+ * Rebuild the session history from the whole log
+ * Resolves to the sessions found, without changing the store
+ */
+export async function readHistoryFromLog(): Promise<TimerSession[]> {
+    await queue
+    const days = await getLogDays()
+    const entries = await Promise.all(days.map(readLogDay))
+    return rebuildHistory(entries.flat())
+}
+
+/**
+ * Replace the history and statistics, e.g. with the ones rebuilt from the log
+ * The replacement itself is not logged, as the log already holds every session in it
+ */
+export async function restoreHistory(history: TimerSession[]): Promise<void> {
+    await hydrateStore(usePomodoroStore.persist)
+
+    replacing = true
+    try {
+        usePomodoroStore.getState().replaceHistory(history)
+    } finally {
+        replacing = false
+    }
+}
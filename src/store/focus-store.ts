@@ -0,0 +1,196 @@
+/**
+ * Persisted focus mode settings and the closing of blocked apps during work sessions
+ */
+
+import { Alert, confirmAlert, environment, showHUD, showToast, Toast } from "@raycast/api"
+import { useEffect } from "react"
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+import { BlockedProcess, FocusStore } from "../types/focus"
+import { SessionEvent, SessionType } from "../types/timer"
+import { findBlockedProcesses, formatBlockedProcesses, normalizeAppName } from "../utils/focus"
+import { isSessionFinished } from "../utils/timer-engine"
+import {
+    getProcessList,
+    killProcessByName,
+    processItemsWithRecovery,
+    showProcessingResults
+} from "../utils/windows-helpers"
+import { createLocalStorage, hydrateStore, useHydration } from "./local-storage"
+import { onSessionEvent } from "./pomodoro-store"
+
+const STORAGE_KEY = "pomodoro-focus"
+const WATCH_INTERVAL = 15 * 1000
+
+const pendingChecks = new Set<Promise<void>>()
+let registered = false
+
+export const useFocusStore = create<FocusStore>()(
+    persist(
+        (set, get) => ({
+            enabled: true,
+            blockedApps: [],
+            closeAutomatically: false,
+
+            setFocusEnabled: (enabled) => {
+                set({ enabled })
+            },
+
+            setCloseAutomatically: (closeAutomatically) => {
+                set({ closeAutomatically })
+            },
+
+            blockApp: (name) => {
+                const app = normalizeAppName(name)
+                const { blockedApps } = get()
+                if (!app || blockedApps.includes(app)) return
+
+                set({ blockedApps: [...blockedApps, app] })
+            },
+
+            unblockApp: (name) => {
+                set({ blockedApps: get().blockedApps.filter((app) => app !== name) })
+            }
+        }),
+        {
+            name: STORAGE_KEY,
+            storage: createLocalStorage([]),
+            partialize: (state) => ({
+                enabled: state.enabled,
+                blockedApps: state.blockedApps,
+                closeAutomatically: state.closeAutomatically
+            })
+        }
+    )
+)
+
+/**
+ * Blocked apps that are running right now
+ */
+export async function getBlockedProcesses(): Promise<BlockedProcess[]> {
+    await hydrateFocusStore()
+    const { blockedApps } = useFocusStore.getState()
+    if (blockedApps.length === 0) return []
+
+    return findBlockedProcesses(await getProcessList(), blockedApps)
+}
+
+/**
+ * Terminate blocked apps and report what was closed
+ */
+export async function closeBlockedApps(processes: BlockedProcess[]): Promise<void> {
+    const results = await processItemsWithRecovery(processes, (process) => killProcessByName(process.name))
+
+    // A HUD would close the main window, so views get a toast instead
+    if (environment.commandMode === "view") {
+        await showProcessingResults(results, "Closing blocked apps")
+    } else if (results.failed === 0) {
+        await showHUD(`🚫 Closed ${formatBlockedProcesses(processes)}`)
+    } else {
+        await showHUD(`❌ Could not close ${results.failed} of ${processes.length} blocked apps`)
+    }
+}
+
+/**
+ * Close the blocked apps when a work session starts, asking first unless configured otherwise
+ * Commands without a view cannot ask, so they only point the running apps out
+ */
+async function enforceFocusMode(): Promise<void> {
+    await hydrateFocusStore()
+    const { enabled, closeAutomatically } = useFocusStore.getState()
+    if (!enabled) return
+
+    const running = await getBlockedProcesses()
+    if (running.length === 0) return
+
+    const names = formatBlockedProcesses(running)
+    if (closeAutomatically) {
+        await closeBlockedApps(running)
+    } else if (environment.commandMode !== "view") {
+        await showHUD(`🚫 Blocked apps running: ${names}`)
+    } else if (
+        await confirmAlert({
+            title: "Close Distracting Apps?",
+            message: `Focus mode blocks ${names} during work sessions.`,
+            primaryAction: { title: "Close Apps", style: Alert.ActionStyle.Destructive },
+            dismissAction: { title: "Keep Open" }
+        })
+    ) {
+        await closeBlockedApps(running)
+    }
+}
+
+/**
+ * Enforce focus mode whenever a work session starts from now on
+ * Call at the top of every command that changes the timer, like `registerLifecycleHooks`
+ */
+export function registerFocusMode(): void {
+    if (registered) return
+    registered = true
+
+    onSessionEvent((event, session) => {
+        // A session that is already over was started while nothing was open
+        if (event !== SessionEvent.START || session.type !== SessionType.WORK || isSessionFinished(session)) return
+
+        const check = enforceFocusMode()
+            .catch((error) => console.error("Could not enforce focus mode", error))
+            .finally(() => pendingChecks.delete(check))
+        pendingChecks.add(check)
+    })
+}
+
+/**
+ * Wait until blocked apps were closed or pointed out
+ * No-view and menu bar commands must call this before returning
+ */
+export async function waitForFocusMode(): Promise<void> {
+    await Promise.all(Array.from(pendingChecks))
+}
+
+/**
+ * Warn while the block is active whenever a blocked app is launched again
+ * Apps that were already running when the check started are left alone
+ */
+export function useBlockedAppWarnings(active: boolean): void {
+    useEffect(() => {
+        if (!active) return
+
+        let known: Set<string> | undefined
+        async function check() {
+            try {
+                const running = await getBlockedProcesses()
+                const relaunched = running.filter((process) => known && !known.has(process.name))
+                known = new Set(running.map((process) => process.name))
+
+                if (relaunched.length > 0) {
+                    await showToast({
+                        style: Toast.Style.Failure,
+                        title: "Blocked app relaunched",
+                        message: formatBlockedProcesses(relaunched),
+                        primaryAction: { title: "Close Apps", onAction: () => closeBlockedApps(relaunched) }
+                    })
+                }
+            } catch (error) {
+                console.error("Could not check for blocked apps", error)
+            }
+        }
+
+        check()
+        const interval = setInterval(check, WATCH_INTERVAL)
+        return () => clearInterval(interval)
+    }, [active])
+}
+
+/**
+ * Load the persisted focus settings, for commands that run outside React
+ */
+export async function hydrateFocusStore(): Promise<void> {
+    await hydrateStore(useFocusStore.persist)
+}
+
+/**
+ * Track whether the persisted focus settings have been loaded into the store
+ */
+export function useFocusHydration(): boolean {
+    return useHydration(useFocusStore.persist)
+}
@@ -0,0 +1,112 @@
+/**
+ * Persisted daily and weekly focus goals
+ */
+
+import { environment, showHUD, showToast, Toast } from "@raycast/api"
+import { randomUUID } from "crypto"
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+import { FocusGoal, GoalProgress, GoalStore } from "../types/goal"
+import { formatGoalProgress, getAnnouncementKey, getGoalProgress, getGoalTitle } from "../utils/goals"
+import { createLocalStorage, hydrateStore, reloadStore, useHydration } from "./local-storage"
+import { hydratePomodoroStore, usePomodoroStore } from "./pomodoro-store"
+import { hydrateTaskStore, useTaskStore } from "./task-store"
+
+const STORAGE_KEY = "pomodoro-goals"
+
+export const useGoalStore = create<GoalStore>()(
+    persist(
+        (set, get) => ({
+            goals: [],
+            announced: [],
+
+            saveGoal: ({ id, ...values }) => {
+                const goal: FocusGoal = { id: id ?? randomUUID(), ...values }
+                const { goals } = get()
+                const exists = goals.some((candidate) => candidate.id === goal.id)
+
+                set({
+                    goals: exists
+                        ? goals.map((candidate) => (candidate.id === goal.id ? goal : candidate))
+                        : [...goals, goal]
+                })
+                return goal
+            },
+
+            deleteGoal: (id) => {
+                set({ goals: get().goals.filter((goal) => goal.id !== id) })
+            },
+
+            markAnnounced: (progress) => {
+                // Keys of past periods are dropped so the list does not grow forever
+                set({ announced: progress.filter((item) => item.reached).map(getAnnouncementKey) })
+            }
+        }),
+        {
+            name: STORAGE_KEY,
+            storage: createLocalStorage([]),
+            partialize: (state) => ({
+                goals: state.goals,
+                announced: state.announced
+            })
+        }
+    )
+)
+
+/**
+ * Current progress of every goal, counting the running session too
+ */
+export function getAllGoalProgress(now: Date = new Date()): GoalProgress[] {
+    const { history, currentSession } = usePomodoroStore.getState()
+    const sessions = currentSession ? [...history, currentSession] : history
+    return useGoalStore.getState().goals.map((goal) => getGoalProgress(goal, sessions, now))
+}
+
+/**
+ * Name of the project a goal is limited to
+ */
+export function getGoalProjectName(goal: FocusGoal): string | undefined {
+    return useTaskStore.getState().projects.find((project) => project.id === goal.projectId)?.name
+}
+
+/**
+ * Tell the user about goals reached since the last check
+ * Each goal is announced once per day or week, whichever command notices it first
+ */
+export async function announceReachedGoals(): Promise<void> {
+    await Promise.all([hydrateGoalStore(), hydratePomodoroStore(), hydrateTaskStore()])
+    // Another command may have announced a goal since this one loaded the list
+    await reloadStore(useGoalStore.persist)
+
+    const progress = getAllGoalProgress()
+    const { announced, markAnnounced } = useGoalStore.getState()
+    const reached = progress.filter((item) => item.reached && !announced.includes(getAnnouncementKey(item)))
+    if (reached.length === 0) return
+
+    markAnnounced(progress)
+
+    const message = reached
+        .map((item) => `${getGoalTitle(item.goal, getGoalProjectName(item.goal))}: ${formatGoalProgress(item)}`)
+        .join(", ")
+
+    // A HUD would close the main window, so views get a toast instead
+    if (environment.commandMode === "view") {
+        await showToast({ style: Toast.Style.Success, title: "🎯 Goal reached", message })
+    } else {
+        await showHUD(`🎯 Goal reached — ${message}`)
+    }
+}
+
+/**
+ * Load the persisted goals, for commands that run outside React
+ */
+export async function hydrateGoalStore(): Promise<void> {
+    await hydrateStore(useGoalStore.persist)
+}
+
+/**
+ * Track whether the persisted goals have been loaded into the store
+ */
+export function useGoalHydration(): boolean {
+    return useHydration(useGoalStore.persist)
+}
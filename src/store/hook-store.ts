@@ -0,0 +1,156 @@
+/**
+ * Persisted lifecycle hooks and the log of their recent runs
+ */
+
+import { showToast, Toast } from "@raycast/api"
+import { randomUUID } from "crypto"
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+import { HookStore, LifecycleHook } from "../types/hook"
+import { SessionEvent, TimerSession } from "../types/timer"
+import { getHookReplacements, matchesHook } from "../utils/hooks"
+import { executeCustomCommand, parseCustomCommand } from "../utils/windows-helpers"
+import { createLocalStorage, hydrateStore, useHydration } from "./local-storage"
+import { onSessionEvent } from "./pomodoro-store"
+
+const STORAGE_KEY = "pomodoro-hooks"
+const DATE_KEYS = ["startedAt"]
+const MAX_RUNS = 50
+
+const pendingRuns = new Set<Promise<void>>()
+let registered = false
+
+export const useHookStore = create<HookStore>()(
+    persist(
+        (set, get) => ({
+            hooks: [],
+            runs: [],
+
+            saveHook: ({ id, ...values }) => {
+                const hook: LifecycleHook = { id: id ?? randomUUID(), ...values }
+                const { hooks } = get()
+                const exists = hooks.some((candidate) => candidate.id === hook.id)
+
+                set({
+                    hooks: exists
+                        ? hooks.map((candidate) => (candidate.id === hook.id ? hook : candidate))
+                        : [...hooks, hook]
+                })
+                return hook
+            },
+
+            deleteHook: (id) => {
+                set({ hooks: get().hooks.filter((hook) => hook.id !== id) })
+            },
+
+            setHookEnabled: (id, enabled) => {
+                set({ hooks: get().hooks.map((hook) => (hook.id === id ? { ...hook, enabled } : hook)) })
+            },
+
+            recordRun: (run) => {
+                set({ runs: [run, ...get().runs].slice(0, MAX_RUNS) })
+            },
+
+            clearRuns: () => {
+                set({ runs: [] })
+            }
+        }),
+        {
+            name: STORAGE_KEY,
+            storage: createLocalStorage(DATE_KEYS),
+            partialize: (state) => ({
+                hooks: state.hooks,
+                runs: state.runs
+            })
+        }
+    )
+)
+
+/**
+ * Run one hook, log the run and report a failure
+ */
+async function runHook(hook: LifecycleHook, event: SessionEvent, session: TimerSession): Promise<void> {
+    const replacements = getHookReplacements(event, session)
+    const startedAt = new Date()
+    let command = hook.command
+    let success = true
+    let output: string | undefined
+
+    try {
+        const { executable, args } = parseCustomCommand(hook.command, replacements)
+        command = [executable, ...args].join(" ")
+        output = (await executeCustomCommand(hook.command, replacements, { timeout: hook.timeout * 1000 })) || undefined
+    } catch (error) {
+        success = false
+        output =
+            error instanceof Error && "killed" in error && error.killed
+                ? `Timed out after ${hook.timeout} seconds`
+                : error instanceof Error
+                  ? error.message
+                  : "Unknown error occurred"
+    }
+
+    useHookStore.getState().recordRun({
+        id: randomUUID(),
+        hookId: hook.id,
+        hookName: hook.name,
+        event,
+        command,
+        startedAt,
+        duration: Date.now() - startedAt.getTime(),
+        success,
+        output
+    })
+
+    if (!success) {
+        await showToast({ style: Toast.Style.Failure, title: `Hook "${hook.name}" failed`, message: output })
+    }
+}
+
+/**
+ * Run every enabled hook that matches a session event
+ */
+async function runHooks(event: SessionEvent, session: TimerSession): Promise<void> {
+    await hydrateHookStore()
+    const hooks = useHookStore.getState().hooks.filter((hook) => matchesHook(hook, event, session))
+    await Promise.all(hooks.map((hook) => runHook(hook, event, session)))
+}
+
+/**
+ * Run the configured hooks on session events from now on
+ * Call at the top of every command that changes the timer, before the stores finish loading,
+ * so sessions that ended while nothing was open still run their hooks
+ */
+export function registerLifecycleHooks(): void {
+    if (registered) return
+    registered = true
+
+    onSessionEvent((event, session) => {
+        const run = runHooks(event, session)
+            .catch((error) => console.error(`Hooks for ${event} failed`, error))
+            .finally(() => pendingRuns.delete(run))
+        pendingRuns.add(run)
+    })
+}
+
+/**
+ * Wait until every running hook finished
+ * No-view and menu bar commands must call this before `flushStorage` or the hooks are cut off
+ */
+export async function waitForHooks(): Promise<void> {
+    await Promise.all(Array.from(pendingRuns))
+}
+
+/**
+ * Load the persisted hooks, for commands that run outside React
+ */
+export async function hydrateHookStore(): Promise<void> {
+    await hydrateStore(useHookStore.persist)
+}
+
+/**
+ * Track whether the persisted hooks have been loaded into the store
+ */
+export function useHookHydration(): boolean {
+    return useHydration(useHookStore.persist)
+}
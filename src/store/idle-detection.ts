@@ -0,0 +1,76 @@
+/**
+ * Pausing the running work session while we are away, and noticing when we are back
+ */
+
+import { useEffect, useRef } from "react"
+import { PauseInterval, SessionType, TimerState } from "../types/timer"
+import { getOpenIdlePause } from "../utils/timer-engine"
+import { canTransition } from "../utils/timer-machine"
+import { getIdleSeconds } from "../utils/windows-helpers"
+import { usePomodoroStore } from "./pomodoro-store"
+
+const POLL_INTERVAL = 15 * 1000
+
+/**
+ * Pause the running work session once the idle threshold is reached
+ * Reading the idle time starts PowerShell, so nothing is read unless a work session runs,
+ * or `watchForReturn` asks to notice when we are back from an open idle pause
+ * Resolves to that pause once we are back and it waits for a decision
+ * Only call after the store has hydrated
+ */
+export async function checkForIdle(watchForReturn = false): Promise<PauseInterval | undefined> {
+    const { state, currentSession, config } = usePomodoroStore.getState()
+    if (!currentSession || config.idleThreshold === 0) return undefined
+
+    const canPause = state === TimerState.RUNNING && currentSession.type === SessionType.WORK
+    if (!canPause && !(watchForReturn && getOpenIdlePause(currentSession))) return undefined
+
+    const idleSeconds = await getIdleSeconds()
+    const away = idleSeconds >= config.idleThreshold * 60
+    if (canPause && away) {
+        // The timer may have been paused or stopped while the idle time was read
+        if (canTransition("pauseForIdle", usePomodoroStore.getState().state)) {
+            usePomodoroStore.getState().pauseForIdle(new Date(Date.now() - idleSeconds * 1000))
+        }
+        return undefined
+    }
+
+    const session = usePomodoroStore.getState().currentSession
+    return !away && session ? getOpenIdlePause(session) : undefined
+}
+
+/**
+ * Check for idle time every few seconds while the view is open
+ * `onReturn` runs once per idle pause, as soon as we are back
+ */
+export function useIdleDetection(enabled: boolean, onReturn: (pause: PauseInterval) => void): void {
+    const handledPause = useRef<number | undefined>(undefined)
+    const returnHandler = useRef(onReturn)
+    returnHandler.current = onReturn
+
+    useEffect(() => {
+        if (!enabled) return
+
+        let checking = false
+        async function check() {
+            // PowerShell can take longer than the interval to start
+            if (checking) return
+            checking = true
+            try {
+                const pause = await checkForIdle(true)
+                if (pause && pause.start.getTime() !== handledPause.current) {
+                    handledPause.current = pause.start.getTime()
+                    returnHandler.current(pause)
+                }
+            } catch (error) {
+                console.error("Could not check for idle time", error)
+            } finally {
+                checking = false
+            }
+        }
+
+        check()
+        const interval = setInterval(check, POLL_INTERVAL)
+        return () => clearInterval(interval)
+    }, [enabled])
+}
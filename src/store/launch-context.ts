@@ -0,0 +1,64 @@
+/**
+ * Running the timer actions that deeplinks, quicklinks and other commands ask for
+ */
+
+import { LaunchAction, SessionType, TimerLaunchContext } from "../types/timer"
+import { getExpectedEndTime, getTimeRemaining } from "../utils/timer-engine"
+import { formatClockTime, formatTime, getSessionLabel, getSessionTypeLabel } from "../utils/timer-format"
+import { usePomodoroStore } from "./pomodoro-store"
+import { resolveLabels } from "./task-store"
+
+/**
+ * Start a session, linking its task and project to existing ones with the same names
+ * Returns a message describing the new session
+ * Only call after the timer and task stores have hydrated
+ */
+export function startSession(type?: SessionType, taskName?: string, projectName?: string, duration?: number): string {
+    const store = usePomodoroStore.getState()
+    const sessionType = type || store.getNextSessionType()
+    store.startTimer(sessionType, taskName, projectName, duration)
+    if (taskName || projectName) {
+        store.assignTaskToSession(resolveLabels(taskName, projectName))
+    }
+
+    const session = usePomodoroStore.getState().currentSession
+    const endTime = session ? formatClockTime(getExpectedEndTime(session)) : "?"
+    const label = session ? getSessionLabel(session) : getSessionTypeLabel(sessionType)
+    return `🍅 ${label}${taskName ? `: ${taskName}` : ""} — ends at ${endTime}`
+}
+
+/**
+ * Run the action of a launch context and return a message describing the outcome
+ * Throws a `TimerError` when the timer state does not allow the action
+ * Only call after the timer and task stores have hydrated
+ */
+export function runLaunchContext(context: TimerLaunchContext): string {
+    const store = usePomodoroStore.getState()
+    const label = store.currentSession ? getSessionLabel(store.currentSession) : "session"
+
+    switch (context.action) {
+        case LaunchAction.START:
+            return startSession(
+                context.type,
+                context.task,
+                context.project,
+                context.duration ? Math.round(context.duration * 60) : undefined
+            )
+        case LaunchAction.PAUSE: {
+            store.pauseTimer()
+            const session = usePomodoroStore.getState().currentSession
+            return `⏸ Paused — ${formatTime(session ? getTimeRemaining(session) : 0)} left`
+        }
+        case LaunchAction.RESUME: {
+            store.resumeTimer()
+            const session = usePomodoroStore.getState().currentSession
+            return `▶️ Resumed — ends at ${session ? formatClockTime(getExpectedEndTime(session)) : "?"}`
+        }
+        case LaunchAction.SKIP:
+            store.skipSession()
+            return `⏭ Skipped ${label}`
+        case LaunchAction.STOP:
+            store.stopTimer()
+            return `⏹ Stopped ${label}`
+    }
+}
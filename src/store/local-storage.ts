@@ -0,0 +1,114 @@
+/**
+ * Raycast LocalStorage persistence shared by the extension's zustand stores
+ */
+
+import { LocalStorage } from "@raycast/api"
+import { randomUUID } from "crypto"
+import { useEffect, useState } from "react"
+import { createJSONStorage, StateStorage } from "zustand/middleware"
+
+const pendingWrites = new Set<Promise<void>>()
+// Revision of every store as this command last read or wrote it
+const knownRevisions = new Map<string, string | undefined>()
+
+function getRevisionKey(name: string): string {
+    return `${name}:revision`
+}
+
+/**
+ * LocalStorage adapter for zustand persist
+ * Tracks in-flight writes so short-lived commands can wait for them before exiting,
+ * and stamps every write with a revision so open views can tell when another command changed a store
+ */
+const localStorageAdapter: StateStorage = {
+    getItem: async (name) => {
+        const [value, revision] = await Promise.all([
+            LocalStorage.getItem<string>(name),
+            LocalStorage.getItem<string>(getRevisionKey(name))
+        ])
+        knownRevisions.set(name, revision)
+        return value ?? null
+    },
+    setItem: (name, value) => {
+        const revision = randomUUID()
+        knownRevisions.set(name, revision)
+        return trackWrite(
+            Promise.all([LocalStorage.setItem(name, value), LocalStorage.setItem(getRevisionKey(name), revision)]).then(
+                () => undefined
+            )
+        )
+    },
+    removeItem: (name) => LocalStorage.removeItem(name)
+}
+
+/**
+ * Track a write that does not go through a persisted store, so `flushStorage` waits for it as well
+ */
+export function trackWrite(write: Promise<void>): Promise<void> {
+    const tracked = write.finally(() => pendingWrites.delete(tracked))
+    pendingWrites.add(tracked)
+    return tracked
+}
+
+/**
+ * JSON storage for a persisted store, reviving the listed keys as dates
+ */
+export function createLocalStorage<S>(dateKeys: string[]) {
+    return createJSONStorage<S>(() => localStorageAdapter, {
+        reviver: (key, value) => (dateKeys.includes(key) && typeof value === "string" ? new Date(value) : value)
+    })
+}
+
+/**
+ * Wait until every pending write reached LocalStorage
+ * No-view and menu bar commands must call this before returning or the last update may be lost
+ */
+export async function flushStorage(): Promise<void> {
+    await Promise.all(Array.from(pendingWrites))
+}
+
+interface PersistApi {
+    hasHydrated: () => boolean
+    rehydrate: () => Promise<void> | void
+    onFinishHydration: (listener: () => void) => () => void
+    getOptions: () => { name?: string }
+}
+
+/**
+ * Load the persisted state of a store, for commands that run outside React
+ */
+export async function hydrateStore(persistApi: PersistApi): Promise<void> {
+    if (!persistApi.hasHydrated()) {
+        await persistApi.rehydrate()
+    }
+}
+
+/**
+ * Load the persisted state of a store again when another command wrote it since this one last read or wrote it
+ * Waits for this command's own writes first, so they are not mistaken for changes made elsewhere
+ */
+export async function reloadStore(persistApi: PersistApi): Promise<void> {
+    const { name } = persistApi.getOptions()
+    if (!name || !persistApi.hasHydrated()) return
+
+    await flushStorage()
+    const revision = await LocalStorage.getItem<string>(getRevisionKey(name))
+    if (revision !== knownRevisions.get(name)) {
+        await persistApi.rehydrate()
+    }
+}
+
+/**
+ * Track whether the persisted state of a store has been loaded
+ */
+export function useHydration(persistApi: PersistApi): boolean {
+    const [hydrated, setHydrated] = useState(persistApi.hasHydrated())
+
+    useEffect(() => {
+        const unsubscribe = persistApi.onFinishHydration(() => setHydrated(true))
+        setHydrated(persistApi.hasHydrated())
+        return unsubscribe
+    }, [persistApi])
+
+    return hydrated
+}
@@ -0,0 +1,142 @@
+/**
+ * Persisted sound and text settings for session notifications, and the notifications themselves
+ */
+
+import { environment, showHUD, showToast, Toast } from "@raycast/api"
+import { useEffect } from "react"
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+import { NotificationStore } from "../types/notification"
+import { SessionEvent, TimerSession, TimerState } from "../types/timer"
+import { getDefaultNotifications, renderTemplate } from "../utils/notifications"
+import { getSoundPlayer } from "../utils/sound"
+import { createLocalStorage, hydrateStore, useHydration } from "./local-storage"
+import { onSessionEvent, usePomodoroStore } from "./pomodoro-store"
+
+const STORAGE_KEY = "pomodoro-notifications"
+const STALE_AFTER = 2 * 60 * 1000
+const TICK_WINDOW = 60 // in seconds
+
+const pendingNotifications = new Set<Promise<void>>()
+let registered = false
+
+export const useNotificationStore = create<NotificationStore>()(
+    persist(
+        (set, get) => ({
+            ...getDefaultNotifications(),
+
+            updateSessionNotification: (type, changes) => {
+                const { sessions } = get()
+                set({ sessions: { ...sessions, [type]: { ...sessions[type], ...changes } } })
+            },
+
+            updateTickSettings: (changes) => {
+                set(changes)
+            },
+
+            resetNotifications: () => {
+                set(getDefaultNotifications())
+            }
+        }),
+        {
+            name: STORAGE_KEY,
+            storage: createLocalStorage([]),
+            partialize: (state) => ({
+                sessions: state.sessions,
+                tickInLastMinute: state.tickInLastMinute,
+                tickFile: state.tickFile,
+                tickVolume: state.tickVolume
+            })
+        }
+    )
+)
+
+/**
+ * Play the sound and show the text configured for the type of a completed session
+ */
+async function notifyCompletion(session: TimerSession): Promise<void> {
+    await hydrateNotificationStore()
+    const { soundFile, volume, repeat, template } = useNotificationStore.getState().sessions[session.type]
+    const player = await getSoundPlayer(usePomodoroStore.getState().config.enableNotifications)
+    const playback = soundFile ? player.play(soundFile, { volume, repeat }).done : Promise.resolve()
+
+    const text = renderTemplate(template, session)
+    if (text) {
+        // A HUD would close the main window, so views get a toast instead
+        if (environment.commandMode === "view") {
+            await showToast({ style: Toast.Style.Success, title: text })
+        } else {
+            await showHUD(text)
+        }
+    }
+    await playback
+}
+
+/**
+ * Notify about every session that completes from now on
+ * Call at the top of every command that changes the timer, like `registerLifecycleHooks`
+ */
+export function registerNotifications(): void {
+    if (registered) return
+    registered = true
+
+    onSessionEvent((event, session) => {
+        // Sessions that ended long before a command noticed are not worth a sound anymore
+        if (event !== SessionEvent.COMPLETE) return
+        if (session.endTime && Date.now() - session.endTime.getTime() > STALE_AFTER) return
+
+        const notification = notifyCompletion(session)
+            .catch((error) => console.error("Could not notify about the completed session", error))
+            .finally(() => pendingNotifications.delete(notification))
+        pendingNotifications.add(notification)
+    })
+}
+
+/**
+ * Wait until every notification sound finished playing
+ * No-view and menu bar commands must call this before returning or the sound is cut off
+ */
+export async function waitForNotifications(): Promise<void> {
+    await Promise.all(Array.from(pendingNotifications))
+}
+
+/**
+ * Tick every second during the last minute of a running session, when enabled
+ */
+export function useLastMinuteTicks(session: TimerSession | null, state: TimerState, timeRemaining: number): void {
+    const inLastMinute = state === TimerState.RUNNING && timeRemaining > 0 && timeRemaining <= TICK_WINDOW
+
+    useEffect(() => {
+        const { tickInLastMinute, tickFile, tickVolume } = useNotificationStore.getState()
+        if (!inLastMinute || !tickInLastMinute || !tickFile) return
+
+        let stopped = false
+        let stop: (() => void) | undefined
+        getSoundPlayer(usePomodoroStore.getState().config.enableNotifications).then((player) => {
+            if (stopped) return
+
+            const playback = player.play(tickFile, { volume: tickVolume, repeat: timeRemaining, interval: 1000 })
+            playback.done.catch((error) => console.error("Could not play the tick sound", error))
+            stop = playback.stop
+        })
+
+        return () => {
+            stopped = true
+            stop?.()
+        }
+    }, [inLastMinute, session?.id])
+}
+
+/**
+ * Load the persisted notification settings, for commands that run outside React
+ */
+export async function hydrateNotificationStore(): Promise<void> {
+    await hydrateStore(useNotificationStore.persist)
+}
+
+/**
+ * Track whether the persisted notification settings have been loaded into the store
+ */
+export function useNotificationHydration(): boolean {
+    return useHydration(useNotificationStore.persist)
+}
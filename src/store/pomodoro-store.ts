@@ -0,0 +1,830 @@
+/**
+ * Persisted Pomodoro store shared by every command of the extension
+ * State lives in Raycast LocalStorage so each command launch sees the same session and history
+ */
+
+import { randomUUID } from "crypto"
+import { useEffect, useState } from "react"
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+import { shallow } from "zustand/shallow"
+import { Project, Task } from "../types/task"
+import {
+    IdleResolution,
+    Interruption,
+    PomodoroState,
+    PomodoroStore,
+    SessionEvent,
+    SessionLabels,
+    SessionSequence,
+    SessionType,
+    TimerAction,
+    TimerConfig,
+    TimerProfile,
+    TimerSession,
+    TimerState,
+    TimerTransition,
+    UndoableAction,
+    UndoSnapshot
+} from "../types/timer"
+import { BUILT_IN_PROFILES, getConfigFromPreferences, getProfileSettings } from "../utils/config"
+import { createSegmentRef, findSequence, getNextSegmentIndex, getSegmentType } from "../utils/sequences"
+import { computeStats } from "../utils/statistics"
+import {
+    closeOpenPause,
+    getExpectedEndTime,
+    getOpenIdlePause,
+    isSessionFinished,
+    isUndoAvailable,
+    UNDO_WINDOW
+} from "../utils/timer-engine"
+import {
+    assertTarget,
+    assertTransition,
+    NothingToUndoError,
+    runTimerAction,
+    UnknownSegmentError
+} from "../utils/timer-machine"
+import { createLocalStorage, hydrateStore, reloadStore, useHydration } from "./local-storage"
+
+const STORAGE_KEY = "pomodoro-store"
+const STORAGE_VERSION = 3
+const DATE_KEYS = ["startTime", "endTime", "start", "end", "loggedAt", "takenAt"]
+
+/**
+ * Get the configured duration of a session type in seconds
+ */
+export function getSessionDuration(type: SessionType, config: TimerConfig): number {
+    switch (type) {
+        case SessionType.WORK:
+            return config.workDuration * 60
+        case SessionType.SHORT_BREAK:
+            return config.shortBreakDuration * 60
+        case SessionType.LONG_BREAK:
+            return config.longBreakDuration * 60
+    }
+}
+
+/**
+ * What the next session will be: its type and duration, and the sequence segment it comes from
+ */
+type SessionPlan = Pick<TimerSession, "type" | "duration" | "segment">
+
+function planSegment(sequence: SessionSequence, index: number): SessionPlan {
+    const segment = sequence.segments[index]
+    return {
+        type: getSegmentType(segment),
+        duration: segment.duration * 60,
+        segment: createSegmentRef(sequence, index)
+    }
+}
+
+/**
+ * Create a fresh running session
+ */
+function createSession(plan: SessionPlan, startTime: Date, labels: SessionLabels): TimerSession {
+    return {
+        id: randomUUID(),
+        ...plan,
+        startTime,
+        completed: false,
+        pauses: [],
+        interruptions: [],
+        ...labels
+    }
+}
+
+/**
+ * Task and project references of a session
+ */
+function getLabels(session: TimerSession | null): SessionLabels {
+    return {
+        taskId: session?.taskId,
+        projectId: session?.projectId,
+        taskName: session?.taskName,
+        projectName: session?.projectName
+    }
+}
+
+/**
+ * Refresh the task and project names of a session from the entities it references
+ * Sessions without references are linked to an entity with exactly the same name
+ */
+function relabelSession(session: TimerSession, tasks: Task[], projects: Project[]): TimerSession {
+    const project = session.projectId
+        ? projects.find((candidate) => candidate.id === session.projectId)
+        : projects.find((candidate) => candidate.name === session.projectName)
+    const task = session.taskId
+        ? tasks.find((candidate) => candidate.id === session.taskId)
+        : tasks.find(
+              (candidate) => candidate.name === session.taskName && candidate.projectId === project?.id
+          )
+
+    return {
+        ...session,
+        taskId: task?.id ?? session.taskId,
+        taskName: task?.name ?? session.taskName,
+        projectId: project?.id ?? session.projectId,
+        projectName: project?.name ?? session.projectName
+    }
+}
+
+/**
+ * Close the current session and move it into history
+ */
+function finishCurrentSession(
+    state: PomodoroState,
+    completed: boolean,
+    endTime: Date = new Date()
+): Partial<PomodoroState> {
+    if (!state.currentSession) {
+        return {}
+    }
+
+    const finished: TimerSession = {
+        ...closeOpenPause(state.currentSession, endTime),
+        endTime,
+        completed
+    }
+
+    const history = [...state.history, finished]
+    return {
+        currentSession: null,
+        state: TimerState.IDLE,
+        history,
+        sessionCount: state.sessionCount + (completed && finished.type === SessionType.WORK ? 1 : 0),
+        stats: computeStats(history)
+    }
+}
+
+// Listener calls of the timer action that is running, held back until it passed its checks
+let deferredCalls: Array<() => void> | undefined
+
+function notify(call: () => void) {
+    if (deferredCalls) {
+        deferredCalls.push(call)
+    } else {
+        call()
+    }
+}
+
+type SessionEventListener = (event: SessionEvent, session: TimerSession) => void
+
+const sessionEventListeners = new Set<SessionEventListener>()
+
+/**
+ * Listen to session lifecycle events, including sessions that finished while no command was open
+ * Returns a function that removes the listener
+ */
+export function onSessionEvent(listener: SessionEventListener): () => void {
+    sessionEventListeners.add(listener)
+    return () => sessionEventListeners.delete(listener)
+}
+
+function emitSessionEvent(event: SessionEvent, session: TimerSession) {
+    notify(() => {
+        for (const listener of sessionEventListeners) {
+            try {
+                listener(event, session)
+            } catch (error) {
+                console.error(`Session ${event} listener failed`, error)
+            }
+        }
+    })
+}
+
+type TimerTransitionListener = (transition: TimerTransition) => void
+
+const transitionListeners = new Set<TimerTransitionListener>()
+
+/**
+ * Listen to every change of the timer state or the current session, with the action that caused it
+ * Returns a function that removes the listener
+ */
+export function onTimerTransition(listener: TimerTransitionListener): () => void {
+    transitionListeners.add(listener)
+    return () => transitionListeners.delete(listener)
+}
+
+function emitTimerTransition(transition: TimerTransition) {
+    notify(() => {
+        for (const listener of transitionListeners) {
+            try {
+                listener(transition)
+            } catch (error) {
+                console.error(`Timer transition listener for ${transition.action} failed`, error)
+            }
+        }
+    })
+}
+
+/**
+ * Find a built-in or custom profile by id
+ */
+export function findProfile(id: string | undefined, customProfiles: TimerProfile[]): TimerProfile | undefined {
+    return id ? [...BUILT_IN_PROFILES, ...customProfiles].find((profile) => profile.id === id) : undefined
+}
+
+/**
+ * Whether the configuration asks for the given session type to start on its own
+ */
+function shouldAutoStart(type: SessionType, config: TimerConfig): boolean {
+    return type === SessionType.WORK ? config.autoStartWork : config.autoStartBreaks
+}
+
+export const usePomodoroStore = create<PomodoroStore>()(
+    persist(
+        (set, get) => {
+            const getActiveSequence = () => findSequence(get().activeSequenceId, get().customSequences)
+            const getReference = () => get().currentSession ?? get().history[get().history.length - 1]
+            const getLastFinished = () => get().history[get().history.length - 1]
+
+            /**
+             * Run a session action through the state machine
+             * It is rejected when the current state does not allow it, or when it ends in a state its rule forbids
+             * It is reported as a transition when it changed the state or the current session
+             * A rejected action leaves the state as it was, and its session events are never sent
+             */
+            const guarded =
+                <Args extends unknown[]>(action: TimerAction, run: (...args: Args) => void) =>
+                (...args: Args) => {
+                    const snapshot = get()
+                    const { state: from, currentSession: before } = snapshot
+                    assertTransition(action, from)
+
+                    const outermost = deferredCalls === undefined
+                    if (outermost) {
+                        deferredCalls = []
+                    }
+                    try {
+                        run(...args)
+
+                        const { state: to, currentSession } = get()
+                        assertTarget(action, from, to)
+                        if (to !== from || currentSession?.id !== before?.id) {
+                            emitTimerTransition({ action, from, to, session: currentSession, at: new Date() })
+                        }
+                    } catch (error) {
+                        if (get() !== snapshot) {
+                            set(snapshot, true)
+                        }
+                        if (outermost) {
+                            deferredCalls = undefined
+                        }
+                        throw error
+                    }
+
+                    if (outermost) {
+                        const calls = deferredCalls ?? []
+                        deferredCalls = undefined
+                        calls.forEach((call) => call())
+                    }
+                }
+
+            /**
+             * Run a stop, reset or skip so that it can be undone for a short while
+             */
+            const undoable = (action: UndoableAction, run: (now: Date) => void) =>
+                guarded(action, () => {
+                    const { currentSession, state, sessionCount } = get()
+                    const now = new Date()
+                    run(now)
+                    set({
+                        undo: {
+                            action,
+                            takenAt: now,
+                            currentSession,
+                            state,
+                            sessionCount,
+                            resultSessionId: get().currentSession?.id
+                        }
+                    })
+                })
+
+            /**
+             * Plan the session that follows the current or last one
+             */
+            const planNext = (): SessionPlan => {
+                const sequence = getActiveSequence()
+                if (sequence) {
+                    return planSegment(sequence, getNextSegmentIndex(sequence, getReference()))
+                }
+
+                const type = get().getNextSessionType()
+                return { type, duration: getSessionDuration(type, get().config) }
+            }
+
+            /**
+             * Plan a session of the requested type
+             * With a sequence active, the next segment recorded as that type is used
+             */
+            const planForType = (type: SessionType): SessionPlan => {
+                const sequence = getActiveSequence()
+                if (sequence) {
+                    const start = getNextSegmentIndex(sequence, getReference())
+                    for (let offset = 0; offset < sequence.segments.length; offset++) {
+                        const index = (start + offset) % sequence.segments.length
+                        if (getSegmentType(sequence.segments[index]) === type) {
+                            return planSegment(sequence, index)
+                        }
+                    }
+                }
+
+                return { type, duration: getSessionDuration(type, get().config) }
+            }
+
+            /**
+             * Replace the current session with a new one
+             * The task carries over from the current session unless a new one is given
+             */
+            const beginSession = (plan: SessionPlan, taskName?: string, projectName?: string) => {
+                const state = get()
+                const replaced = state.currentSession
+                const now = new Date()
+                const current = getLabels(state.currentSession)
+                const session = createSession(plan, now, {
+                    taskId: taskName === undefined ? current.taskId : undefined,
+                    taskName: taskName ?? current.taskName,
+                    projectId: projectName === undefined ? current.projectId : undefined,
+                    projectName: projectName ?? current.projectName
+                })
+
+                set({
+                    ...finishCurrentSession(state, false, now),
+                    currentSession: session,
+                    state: TimerState.RUNNING
+                })
+
+                if (replaced) {
+                    emitSessionEvent(SessionEvent.STOP, getLastFinished())
+                }
+                emitSessionEvent(SessionEvent.START, session)
+            }
+
+            /**
+             * Move the current session into history and tell the listeners how it ended
+             */
+            const finish = (completed: boolean, endTime: Date, event: SessionEvent) => {
+                if (!get().currentSession) {
+                    return
+                }
+
+                set(finishCurrentSession(get(), completed, endTime))
+                emitSessionEvent(event, getLastFinished())
+            }
+
+            /**
+             * End the current session and start the next one when the configuration asks for it
+             * The next session starts exactly when the previous one ended, which may be in the past
+             */
+            const advance = (completed: boolean, endTime: Date) => {
+                const { currentSession } = get()
+                if (!currentSession) {
+                    return
+                }
+
+                const labels = getLabels(currentSession)
+                finish(completed, endTime, completed ? SessionEvent.COMPLETE : SessionEvent.SKIP)
+
+                const plan = planNext()
+                if (shouldAutoStart(plan.type, get().config)) {
+                    const next = createSession(plan, endTime, labels)
+                    set({
+                        currentSession: next,
+                        state: TimerState.RUNNING
+                    })
+                    emitSessionEvent(SessionEvent.START, next)
+                }
+            }
+
+            return {
+                currentSession: null,
+                state: TimerState.IDLE,
+                sessionCount: 0,
+                config: getConfigFromPreferences(),
+                stats: computeStats([]),
+                history: [],
+                customProfiles: [],
+                activeProfileId: undefined,
+                customSequences: [],
+                activeSequenceId: undefined,
+                undo: undefined,
+
+                startTimer: guarded("startTimer", (type, taskName, projectName, duration) => {
+                    const plan = planForType(type)
+                    beginSession(duration === undefined ? plan : { ...plan, duration }, taskName, projectName)
+                }),
+
+                startSegment: guarded("startSegment", (index) => {
+                    const sequence = getActiveSequence()
+                    if (!sequence || !sequence.segments[index]) {
+                        throw new UnknownSegmentError(index)
+                    }
+
+                    beginSession(planSegment(sequence, index))
+                }),
+
+                pauseTimer: guarded("pauseTimer", () => {
+                    const { currentSession } = get()
+                    if (!currentSession) {
+                        return
+                    }
+
+                    const now = new Date()
+                    const paused = { ...currentSession, pauses: [...currentSession.pauses, { start: now }] }
+                    set({ currentSession: paused, state: TimerState.PAUSED })
+                    emitSessionEvent(SessionEvent.PAUSE, paused)
+                }),
+
+                resumeTimer: guarded("resumeTimer", () => {
+                    const { currentSession } = get()
+                    if (!currentSession) {
+                        return
+                    }
+
+                    const resumed = closeOpenPause(currentSession, new Date())
+                    set({ currentSession: resumed, state: TimerState.RUNNING })
+                    emitSessionEvent(SessionEvent.RESUME, resumed)
+                }),
+
+                pauseForIdle: guarded("pauseForIdle", (since) => {
+                    const { currentSession } = get()
+                    if (!currentSession || currentSession.type !== SessionType.WORK) {
+                        return
+                    }
+
+                    // The pause starts when we left, but never before the session or its last pause
+                    const lastPause = currentSession.pauses[currentSession.pauses.length - 1]
+                    const earliest = Math.max(currentSession.startTime.getTime(), lastPause?.end?.getTime() ?? 0)
+                    const start = new Date(Math.max(since.getTime(), earliest))
+                    const paused = {
+                        ...currentSession,
+                        pauses: [...currentSession.pauses, { start, idle: true }]
+                    }
+                    set({ currentSession: paused, state: TimerState.PAUSED })
+                    emitSessionEvent(SessionEvent.PAUSE, paused)
+                }),
+
+                resolveIdle: guarded("resolveIdle", (resolution) => {
+                    // Settled from another command in the meantime
+                    const { currentSession } = get()
+                    if (!currentSession || !getOpenIdlePause(currentSession)) {
+                        return
+                    }
+
+                    const now = new Date()
+                    const closed = currentSession.pauses.slice(0, -1)
+                    const idlePause = currentSession.pauses[currentSession.pauses.length - 1]
+                    const pauses =
+                        resolution === IdleResolution.WORK
+                            ? closed
+                            : [
+                                  ...closed,
+                                  { ...idlePause, end: now, countsAsBreak: resolution === IdleResolution.BREAK }
+                              ]
+                    const resumed = { ...currentSession, pauses }
+                    set({ currentSession: resumed, state: TimerState.RUNNING })
+                    emitSessionEvent(SessionEvent.RESUME, resumed)
+                    // Idle time kept as work may already use up the session
+                    get().syncTimer()
+                }),
+
+                stopTimer: undoable("stopTimer", (now) => {
+                    finish(false, now, SessionEvent.STOP)
+                }),
+
+                resetTimer: undoable("resetTimer", () => {
+                    const { currentSession } = get()
+                    set({
+                        currentSession: null,
+                        state: TimerState.IDLE,
+                        sessionCount: 0
+                    })
+                    // The session is discarded rather than recorded, but it still stopped
+                    if (currentSession) {
+                        emitSessionEvent(SessionEvent.STOP, currentSession)
+                    }
+                }),
+
+                skipSession: undoable("skipSession", (now) => {
+                    advance(false, now)
+                }),
+
+                undoLastAction: guarded("undoLastAction", () => {
+                    const { undo, currentSession, history } = get()
+                    if (!undo || !isUndoAvailable(undo, currentSession)) {
+                        throw new NothingToUndoError()
+                    }
+
+                    // A running session continues where it was; the time since the action counts as a pause
+                    const now = new Date()
+                    const restored =
+                        undo.currentSession && undo.state === TimerState.RUNNING
+                            ? {
+                                  ...undo.currentSession,
+                                  pauses: [...undo.currentSession.pauses, { start: undo.takenAt, end: now }]
+                              }
+                            : undo.currentSession
+                    const remaining = history.filter((session) => session.id !== undo.currentSession?.id)
+                    set({
+                        currentSession: restored,
+                        state: undo.state,
+                        sessionCount: undo.sessionCount,
+                        history: remaining,
+                        stats: computeStats(remaining),
+                        undo: undefined
+                    })
+
+                    // The session a skip started is dropped again
+                    if (currentSession) {
+                        emitSessionEvent(SessionEvent.STOP, currentSession)
+                    }
+                    if (restored && undo.state === TimerState.RUNNING) {
+                        emitSessionEvent(SessionEvent.RESUME, restored)
+                    }
+                }),
+
+                completeSession: guarded("completeSession", () => {
+                    advance(true, new Date())
+                }),
+
+                logInterruption: guarded("logInterruption", (type, note) => {
+                    const { currentSession } = get()
+                    if (!currentSession) return
+
+                    const interruption: Interruption = { id: randomUUID(), type, loggedAt: new Date(), note }
+                    set({
+                        currentSession: {
+                            ...currentSession,
+                            interruptions: [...currentSession.interruptions, interruption]
+                        }
+                    })
+                }),
+
+                syncTimer: guarded("syncTimer", () => {
+                    const now = new Date()
+
+                    // Catch up on every session that ended while no command was open
+                    // Nothing is written unless a session ends, as the remaining time is derived from the clock
+                    let session = get().currentSession
+                    while (session && get().state === TimerState.RUNNING && isSessionFinished(session, now)) {
+                        advance(true, getExpectedEndTime(session, now))
+                        session = get().currentSession
+                    }
+                }),
+
+                updateConfig: (config) => {
+                    const updated = { ...get().config, ...config }
+                    if (!shallow(updated, get().config)) {
+                        set({ config: updated })
+                    }
+                },
+
+                saveProfile: ({ id, ...values }) => {
+                    const profile: TimerProfile = { id: id ?? randomUUID(), ...values }
+                    const { customProfiles, activeProfileId } = get()
+                    const exists = customProfiles.some((candidate) => candidate.id === profile.id)
+
+                    set({
+                        customProfiles: exists
+                            ? customProfiles.map((candidate) => (candidate.id === profile.id ? profile : candidate))
+                            : [...customProfiles, profile]
+                    })
+                    if (activeProfileId === profile.id) {
+                        get().updateConfig(getProfileSettings(profile))
+                    }
+                    return profile
+                },
+
+                deleteProfile: (id) => {
+                    set({ customProfiles: get().customProfiles.filter((profile) => profile.id !== id) })
+                    if (get().activeProfileId === id) {
+                        get().activateProfile(undefined)
+                    }
+                },
+
+                saveSequence: ({ id, ...values }) => {
+                    const sequence: SessionSequence = { id: id ?? randomUUID(), ...values }
+                    const { customSequences } = get()
+                    const exists = customSequences.some((candidate) => candidate.id === sequence.id)
+
+                    set({
+                        customSequences: exists
+                            ? customSequences.map((candidate) => (candidate.id === sequence.id ? sequence : candidate))
+                            : [...customSequences, sequence]
+                    })
+                    return sequence
+                },
+
+                deleteSequence: (id) => {
+                    set({
+                        customSequences: get().customSequences.filter((sequence) => sequence.id !== id),
+                        activeSequenceId: get().activeSequenceId === id ? undefined : get().activeSequenceId
+                    })
+                },
+
+                activateSequence: (id) => {
+                    set({ activeSequenceId: findSequence(id, get().customSequences)?.id })
+                },
+
+                activateProfile: (id) => {
+                    const profile = findProfile(id, get().customProfiles)
+                    set({ activeProfileId: profile?.id })
+                    get().updateConfig(profile ? getProfileSettings(profile) : getConfigFromPreferences())
+                },
+
+                addTaskToSession: guarded("addTaskToSession", (taskName, projectName) => {
+                    const { currentSession } = get()
+                    if (!currentSession) {
+                        return
+                    }
+
+                    set({
+                        currentSession: {
+                            ...currentSession,
+                            taskId: undefined,
+                            taskName,
+                            projectId: projectName === undefined ? currentSession.projectId : undefined,
+                            projectName: projectName ?? currentSession.projectName
+                        }
+                    })
+                }),
+
+                assignTaskToSession: guarded("assignTaskToSession", (labels) => {
+                    const { currentSession } = get()
+                    if (!currentSession) {
+                        return
+                    }
+
+                    set({ currentSession: { ...currentSession, ...labels } })
+                }),
+
+                relabelSessions: (tasks, projects) => {
+                    const { currentSession, history } = get()
+                    set({
+                        currentSession: currentSession ? relabelSession(currentSession, tasks, projects) : null,
+                        history: history.map((session) => relabelSession(session, tasks, projects))
+                    })
+                },
+
+                getNextSegmentIndex: () => {
+                    const sequence = getActiveSequence()
+                    return sequence ? getNextSegmentIndex(sequence, getReference()) : undefined
+                },
+
+                getNextSessionType: () => {
+                    const sequence = getActiveSequence()
+                    if (sequence) {
+                        return getSegmentType(sequence.segments[getNextSegmentIndex(sequence, getReference())])
+                    }
+
+                    const { currentSession, sessionCount, config } = get()
+                    const reference = getReference()
+
+                    if (!reference || reference.type !== SessionType.WORK) {
+                        return SessionType.WORK
+                    }
+
+                    // A running work session has not been counted yet
+                    const completedWork = sessionCount + (currentSession ? 1 : 0)
+                    return completedWork > 0 && completedWork % config.longBreakInterval === 0
+                        ? SessionType.LONG_BREAK
+                        : SessionType.SHORT_BREAK
+                },
+
+                updateHistorySession: (id, changes) => {
+                    const updated = get().history.map((session) =>
+                        session.id === id ? { ...session, ...changes } : session
+                    )
+                    set({ history: updated, stats: computeStats(updated) })
+                },
+
+                deleteHistorySession: (id) => {
+                    const remaining = get().history.filter((session) => session.id !== id)
+                    set({ history: remaining, stats: computeStats(remaining) })
+                },
+
+                importSessions: (sessions) => {
+                    const history = [...get().history, ...sessions].sort(
+                        (a, b) => a.startTime.getTime() - b.startTime.getTime()
+                    )
+                    set({ history, stats: computeStats(history) })
+                },
+
+                replaceHistory: (history) => {
+                    set({ history, stats: computeStats(history) })
+                },
+
+                refreshStats: () => {
+                    const stats = computeStats(get().history)
+                    if (!shallow(stats, get().stats)) {
+                        set({ stats })
+                    }
+                }
+            }
+        },
+        {
+            name: STORAGE_KEY,
+            version: STORAGE_VERSION,
+            storage: createLocalStorage(DATE_KEYS),
+            partialize: (state) => ({
+                currentSession: state.currentSession,
+                state: state.state,
+                sessionCount: state.sessionCount,
+                stats: state.stats,
+                history: state.history,
+                customProfiles: state.customProfiles,
+                activeProfileId: state.activeProfileId,
+                customSequences: state.customSequences,
+                activeSequenceId: state.activeSequenceId,
+                undo: state.undo
+            }),
+            migrate: (persisted, version) => {
+                const state = persisted as PomodoroState
+                if (version < 1) {
+                    // Sessions stored before pause tracking have no pause list
+                    const withPauses = (session: TimerSession) => ({ ...session, pauses: session.pauses ?? [] })
+                    state.currentSession = state.currentSession ? withPauses(state.currentSession) : null
+                    state.history = state.history.map(withPauses)
+                }
+                if (version < 2) {
+                    // Sessions stored before interruption tracking have no interruption list
+                    const withInterruptions = (session: TimerSession) => ({
+                        ...session,
+                        interruptions: session.interruptions ?? []
+                    })
+                    state.currentSession = state.currentSession ? withInterruptions(state.currentSession) : null
+                    state.history = state.history.map(withInterruptions)
+                }
+                if (version < 3) {
+                    // The remaining time is derived from the current session and the clock instead
+                    delete (persisted as Record<string, unknown>).timeRemaining
+                }
+                return state
+            },
+            onRehydrateStorage: () => (state) => {
+                // The active profile decides the durations used when catching up on finished sessions
+                const profile = findProfile(state?.activeProfileId, state?.customProfiles ?? [])
+                if (profile) {
+                    state?.updateConfig(getProfileSettings(profile))
+                }
+                state?.syncTimer()
+                // Day, week and month counts depend on the current date
+                state?.refreshStats()
+            }
+        }
+    )
+)
+
+/**
+ * Load the persisted state, for commands that run outside React
+ */
+export async function hydratePomodoroStore(): Promise<void> {
+    await hydrateStore(usePomodoroStore.persist)
+}
+
+/**
+ * Load the persisted state again when another command changed it, e.g. paused the timer from the menu bar
+ */
+export async function reloadPomodoroStore(): Promise<void> {
+    await reloadStore(usePomodoroStore.persist)
+}
+
+/**
+ * Run a timer action on the latest persisted state, reporting a rejected action instead of throwing
+ * Views stay open while other commands change the timer, and would otherwise write their stale state back
+ */
+export async function runLatestTimerAction(action: () => void): Promise<boolean> {
+    await reloadPomodoroStore()
+    return runTimerAction(action)
+}
+
+/**
+ * Track whether the persisted state has been loaded into the store
+ */
+export function usePomodoroHydration(): boolean {
+    return useHydration(usePomodoroStore.persist)
+}
+
+/**
+ * The last stop, reset or skip while it can still be undone
+ * Re-renders once the undo window passes
+ */
+export function useAvailableUndo(): UndoSnapshot | undefined {
+    const undo = usePomodoroStore((state) => state.undo)
+    const currentSession = usePomodoroStore((state) => state.currentSession)
+    const [, setExpired] = useState(false)
+
+    useEffect(() => {
+        if (!undo) return
+
+        setExpired(false)
+        const timeout = setTimeout(
+            () => setExpired(true),
+            Math.max(0, undo.takenAt.getTime() + UNDO_WINDOW - Date.now())
+        )
+        return () => clearTimeout(timeout)
+    }, [undo])
+
+    return undo && isUndoAvailable(undo, currentSession) ? undo : undefined
+}
@@ -0,0 +1,36 @@
+/**
+ * One place that starts every background reaction to session events, so no command misses one
+ */
+
+import { registerEventLog } from "./event-log"
+import { registerFocusMode, waitForFocusMode } from "./focus-store"
+import { registerLifecycleHooks, waitForHooks } from "./hook-store"
+import { registerNotifications, waitForNotifications } from "./notification-store"
+import { registerTimeSync, waitForTimeSync } from "./sync-store"
+import { registerWebhooks, waitForWebhooks } from "./webhook-store"
+
+/**
+ * Start everything that reacts to session events: hooks, focus mode, notifications, the event log, time sync and webhooks
+ * Call once at the top of every command that loads the timer, so sessions finished on load reach all of them
+ */
+export function registerSessionListeners(): void {
+    registerLifecycleHooks()
+    registerFocusMode()
+    registerNotifications()
+    registerEventLog()
+    registerTimeSync()
+    registerWebhooks()
+}
+
+/**
+ * Wait for the hooks, focus mode changes, notifications, uploads and webhooks that session events started
+ */
+export async function waitForSessionListeners(): Promise<void> {
+    await Promise.all([
+        waitForHooks(),
+        waitForFocusMode(),
+        waitForNotifications(),
+        waitForTimeSync(),
+        waitForWebhooks()
+    ])
+}
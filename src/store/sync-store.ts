@@ -0,0 +1,224 @@
+/**
+ * Persisted upload queue of completed work sessions for the time tracker
+ * Entries wait here while offline and are retried with a growing delay
+ */
+
+import { randomUUID } from "crypto"
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+import { SyncItem, SyncStatus, SyncStore } from "../types/sync"
+import { SessionEvent, SessionType } from "../types/timer"
+import { getRetryDelay, MAX_ATTEMPTS, RequestError } from "../utils/http"
+import { getSyncSettings, postTimeEntry, toTimeEntry } from "../utils/time-sync"
+import { createLocalStorage, hydrateStore, reloadStore, useHydration } from "./local-storage"
+import { onSessionEvent } from "./pomodoro-store"
+
+const STORAGE_KEY = "pomodoro-sync"
+const DATE_KEYS = ["createdAt", "nextAttemptAt", "syncedAt"]
+const MAX_SYNCED = 50
+
+const pendingSyncs = new Set<Promise<void>>()
+let running: Promise<void> | undefined
+let registered = false
+
+export const useSyncStore = create<SyncStore>()(
+    persist(
+        (set, get) => {
+            const updateItem = (id: string, changes: Partial<SyncItem>) => {
+                set({ items: get().items.map((item) => (item.id === id ? { ...item, ...changes } : item)) })
+            }
+
+            return {
+                items: [],
+
+                enqueueEntry: (sessionId, entry) => {
+                    if (get().items.some((item) => item.sessionId === sessionId)) return
+
+                    const now = new Date()
+                    const item: SyncItem = {
+                        id: randomUUID(),
+                        sessionId,
+                        entry,
+                        status: SyncStatus.PENDING,
+                        attempts: 0,
+                        createdAt: now,
+                        nextAttemptAt: now
+                    }
+                    set({ items: [...get().items, item] })
+                },
+
+                markSynced: (id, remoteId) => {
+                    const items = get().items.map((item) =>
+                        item.id === id
+                            ? {
+                                  ...item,
+                                  status: SyncStatus.SYNCED,
+                                  attempts: item.attempts + 1,
+                                  syncedAt: new Date(),
+                                  remoteId,
+                                  lastError: undefined
+                              }
+                            : item
+                    )
+                    // Only the most recent uploads are kept for the status view
+                    const synced = items.filter((item) => item.status === SyncStatus.SYNCED)
+                    const dropped = new Set(synced.slice(0, -MAX_SYNCED).map((item) => item.id))
+                    set({ items: items.filter((item) => !dropped.has(item.id)) })
+                },
+
+                markAttemptFailed: (id, error, nextAttemptAt) => {
+                    const item = get().items.find((candidate) => candidate.id === id)
+                    // Another command may have uploaded the entry meanwhile
+                    if (!item || item.status === SyncStatus.SYNCED) return
+
+                    updateItem(id, {
+                        status: nextAttemptAt ? SyncStatus.PENDING : SyncStatus.FAILED,
+                        attempts: item.attempts + 1,
+                        lastError: error,
+                        nextAttemptAt: nextAttemptAt ?? item.nextAttemptAt
+                    })
+                },
+
+                retryItem: (id) => {
+                    updateItem(id, { status: SyncStatus.PENDING, attempts: 0, nextAttemptAt: new Date() })
+                },
+
+                retryAll: () => {
+                    const now = new Date()
+                    set({
+                        items: get().items.map((item) =>
+                            item.status === SyncStatus.SYNCED
+                                ? item
+                                : { ...item, status: SyncStatus.PENDING, attempts: 0, nextAttemptAt: now }
+                        )
+                    })
+                },
+
+                discardItem: (id) => {
+                    set({ items: get().items.filter((item) => item.id !== id) })
+                },
+
+                clearSynced: () => {
+                    set({ items: get().items.filter((item) => item.status !== SyncStatus.SYNCED) })
+                }
+            }
+        },
+        {
+            name: STORAGE_KEY,
+            storage: createLocalStorage(DATE_KEYS),
+            partialize: (state) => ({ items: state.items })
+        }
+    )
+)
+
+/**
+ * Upload every pending entry that is due, one at a time and oldest first
+ * Stops at the first entry the server could not be reached for, as the others would fail the same way
+ */
+async function uploadDueEntries(): Promise<void> {
+    await reloadSyncStore()
+    const settings = getSyncSettings()
+    if (!settings) return
+
+    const now = Date.now()
+    const due = useSyncStore
+        .getState()
+        .items.filter((item) => item.status === SyncStatus.PENDING && item.nextAttemptAt.getTime() <= now)
+
+    for (const item of due) {
+        const { markSynced, markAttemptFailed } = useSyncStore.getState()
+        try {
+            // The session id keeps the server from booking an entry twice that two commands both uploaded
+            const remoteId = await postTimeEntry(settings, item.entry, item.sessionId)
+            await reloadSyncStore()
+            markSynced(item.id, remoteId)
+        } catch (error) {
+            const requestError = error instanceof RequestError ? error : new RequestError(String(error), false)
+            const attempts = item.attempts + 1
+            const retry = requestError.retryable && attempts < MAX_ATTEMPTS
+            await reloadSyncStore()
+            markAttemptFailed(
+                item.id,
+                requestError.message,
+                retry ? new Date(Date.now() + getRetryDelay(attempts)) : undefined
+            )
+
+            if (requestError.retryable && requestError.status === undefined) break
+        }
+    }
+}
+
+/**
+ * Start uploading the due entries unless an upload is already running
+ * `waitForTimeSync` waits for it
+ */
+export function syncTimeEntries(): Promise<void> {
+    if (!running) {
+        const sync = uploadDueEntries()
+            .catch((error) => console.error("Could not sync time entries", error))
+            .finally(() => {
+                pendingSyncs.delete(sync)
+                running = undefined
+            })
+        pendingSyncs.add(sync)
+        running = sync
+    }
+    return running
+}
+
+/**
+ * Queue every work session that completes from now on for the time tracker, and upload what is due
+ * Call at the top of every command that changes the timer, like `registerLifecycleHooks`
+ */
+export function registerTimeSync(): void {
+    if (registered) return
+    registered = true
+
+    onSessionEvent((event, session) => {
+        if (event !== SessionEvent.COMPLETE || session.type !== SessionType.WORK || !getSyncSettings()) return
+
+        const queued = reloadSyncStore()
+            .then(() => useSyncStore.getState().enqueueEntry(session.id, toTimeEntry(session)))
+            // An upload that is already running would miss the new entry
+            .then(() => running)
+            .then(syncTimeEntries)
+            .catch((error) => console.error("Could not queue the time entry", error))
+            .finally(() => pendingSyncs.delete(queued))
+        pendingSyncs.add(queued)
+    })
+
+    if (getSyncSettings()) {
+        syncTimeEntries()
+    }
+}
+
+/**
+ * Wait until queued entries are stored and the running upload finished
+ * No-view and menu bar commands must call this before returning or an upload may be cut off
+ */
+export async function waitForTimeSync(): Promise<void> {
+    await Promise.all(Array.from(pendingSyncs))
+}
+
+/**
+ * Load the persisted upload queue, for commands that run outside React
+ */
+export async function hydrateSyncStore(): Promise<void> {
+    await hydrateStore(useSyncStore.persist)
+}
+
+/**
+ * Load the upload queue again when another command changed it, before this one changes it
+ * Otherwise its stale copy would be written back and drop what the other command queued
+ */
+export async function reloadSyncStore(): Promise<void> {
+    await hydrateSyncStore()
+    await reloadStore(useSyncStore.persist)
+}
+
+/**
+ * Track whether the persisted upload queue has been loaded into the store
+ */
+export function useSyncHydration(): boolean {
+    return useHydration(useSyncStore.persist)
+}
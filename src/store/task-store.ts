@@ -0,0 +1,171 @@
+/**
+ * Persisted tasks and projects that sessions reference by id
+ */
+
+import { randomUUID } from "crypto"
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+import { Project, Task, TaskStore } from "../types/task"
+import { SessionLabels } from "../types/timer"
+import { createLocalStorage, hydrateStore, useHydration } from "./local-storage"
+import { reloadPomodoroStore, usePomodoroStore } from "./pomodoro-store"
+
+const STORAGE_KEY = "pomodoro-tasks"
+const DATE_KEYS = ["createdAt", "completedAt"]
+
+/**
+ * Push the current task and project names into every session that references them
+ */
+function relabelSessions(tasks: Task[], projects: Project[]) {
+    // Writing to an unloaded store would overwrite the persisted history
+    if (!usePomodoroStore.persist.hasHydrated()) return
+
+    // Relabel the latest history, so sessions other commands finished while this view was open are kept
+    reloadPomodoroStore()
+        .then(() => usePomodoroStore.getState().relabelSessions(tasks, projects))
+        .catch((error) => console.error("Could not relabel sessions", error))
+}
+
+export const useTaskStore = create<TaskStore>()(
+    persist(
+        (set, get) => {
+            /**
+             * Replace one task and propagate the change to the sessions
+             */
+            const updateTaskById = (id: string, update: (task: Task) => Task) => {
+                const tasks = get().tasks.map((task) => (task.id === id ? update(task) : task))
+                set({ tasks })
+                relabelSessions(tasks, get().projects)
+            }
+
+            /**
+             * Replace one project and propagate the change to the sessions
+             */
+            const updateProjectById = (id: string, update: (project: Project) => Project) => {
+                const projects = get().projects.map((project) => (project.id === id ? update(project) : project))
+                set({ projects })
+                relabelSessions(get().tasks, projects)
+            }
+
+            return {
+                tasks: [],
+                projects: [],
+
+                addProject: (name) => {
+                    const project: Project = {
+                        id: randomUUID(),
+                        name: name.trim(),
+                        archived: false,
+                        createdAt: new Date()
+                    }
+                    const projects = [...get().projects, project]
+                    set({ projects })
+                    relabelSessions(get().tasks, projects)
+                    return project
+                },
+
+                updateProject: (id, changes) => {
+                    updateProjectById(id, (project) => ({ ...project, ...changes }))
+                },
+
+                setProjectArchived: (id, archived) => {
+                    updateProjectById(id, (project) => ({ ...project, archived }))
+                },
+
+                addTask: ({ name, projectId, estimatedPomodoros }) => {
+                    const task: Task = {
+                        id: randomUUID(),
+                        name: name.trim(),
+                        projectId,
+                        estimatedPomodoros,
+                        completed: false,
+                        archived: false,
+                        createdAt: new Date()
+                    }
+                    const tasks = [...get().tasks, task]
+                    set({ tasks })
+                    relabelSessions(tasks, get().projects)
+                    return task
+                },
+
+                updateTask: (id, changes) => {
+                    updateTaskById(id, (task) => ({ ...task, ...changes }))
+                },
+
+                setTaskCompleted: (id, completed) => {
+                    updateTaskById(id, (task) => ({
+                        ...task,
+                        completed,
+                        completedAt: completed ? new Date() : undefined
+                    }))
+                },
+
+                setTaskArchived: (id, archived) => {
+                    updateTaskById(id, (task) => ({ ...task, archived }))
+                }
+            }
+        },
+        {
+            name: STORAGE_KEY,
+            storage: createLocalStorage(DATE_KEYS),
+            partialize: (state) => ({
+                tasks: state.tasks,
+                projects: state.projects
+            })
+        }
+    )
+)
+
+/**
+ * Session labels for a task, including its project
+ */
+export function getTaskLabels(task: Task): SessionLabels {
+    const project = useTaskStore.getState().projects.find((candidate) => candidate.id === task.projectId)
+    return {
+        taskId: task.id,
+        taskName: task.name,
+        projectId: project?.id,
+        projectName: project?.name
+    }
+}
+
+/**
+ * Link free-text task and project names to existing entities when the names match
+ */
+export function resolveLabels(taskName?: string, projectName?: string): SessionLabels {
+    const { tasks, projects } = useTaskStore.getState()
+    const sameName = (a: string, b?: string) => a.toLowerCase() === b?.trim().toLowerCase()
+
+    const project = projects.find((candidate) => !candidate.archived && sameName(candidate.name, projectName))
+    const task = tasks.find(
+        (candidate) =>
+            !candidate.archived &&
+            sameName(candidate.name, taskName) &&
+            (!project || candidate.projectId === project.id)
+    )
+
+    if (task) {
+        return getTaskLabels(task)
+    }
+
+    return {
+        taskId: undefined,
+        taskName,
+        projectId: project?.id,
+        projectName: project?.name ?? projectName
+    }
+}
+
+/**
+ * Load the persisted tasks, for commands that run outside React
+ */
+export async function hydrateTaskStore(): Promise<void> {
+    await hydrateStore(useTaskStore.persist)
+}
+
+/**
+ * Track whether the persisted tasks have been loaded into the store
+ */
+export function useTaskHydration(): boolean {
+    return useHydration(useTaskStore.persist)
+}
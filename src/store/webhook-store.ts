@@ -0,0 +1,296 @@
+/**
+ * Persisted webhooks and the delivery queue of their payloads
+ * Deliveries wait here while a receiver is unreachable and are retried with a growing delay
+ */
+
+import { randomUUID } from "crypto"
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+import { SessionEvent, TimerSession, TimerTransition } from "../types/timer"
+import { DeliveryStatus, Webhook, WebhookDelivery, WebhookStore } from "../types/webhook"
+import { getRetryDelay, MAX_ATTEMPTS, RequestError } from "../utils/http"
+import { createPayload, matchesWebhook, sendDelivery } from "../utils/webhooks"
+import { createLocalStorage, hydrateStore, reloadStore, useHydration } from "./local-storage"
+import { onSessionEvent, onTimerTransition } from "./pomodoro-store"
+
+const STORAGE_KEY = "pomodoro-webhooks"
+const DATE_KEYS = ["createdAt", "nextAttemptAt", "lastAttemptAt"]
+const MAX_DELIVERED = 50
+
+interface UnsentEvent {
+    event: SessionEvent
+    session: TimerSession
+    occurredAt: Date
+    transition?: TimerTransition
+}
+
+const pendingDeliveries = new Set<Promise<void>>()
+let unsent: UnsentEvent[] = []
+let running: Promise<void> | undefined
+let registered = false
+
+export const useWebhookStore = create<WebhookStore>()(
+    persist(
+        (set, get) => {
+            const updateDelivery = (id: string, changes: Partial<WebhookDelivery>) => {
+                set({
+                    deliveries: get().deliveries.map((delivery) =>
+                        delivery.id === id ? { ...delivery, ...changes } : delivery
+                    )
+                })
+            }
+
+            return {
+                webhooks: [],
+                deliveries: [],
+
+                saveWebhook: ({ id, ...values }) => {
+                    const webhook: Webhook = { id: id ?? randomUUID(), ...values }
+                    const { webhooks } = get()
+                    const exists = webhooks.some((candidate) => candidate.id === webhook.id)
+
+                    set({
+                        webhooks: exists
+                            ? webhooks.map((candidate) => (candidate.id === webhook.id ? webhook : candidate))
+                            : [...webhooks, webhook]
+                    })
+                    return webhook
+                },
+
+                deleteWebhook: (id) => {
+                    // Its delivered payloads stay in the log, the ones still waiting are dropped
+                    set({
+                        webhooks: get().webhooks.filter((webhook) => webhook.id !== id),
+                        deliveries: get().deliveries.filter(
+                            (delivery) => delivery.webhookId !== id || delivery.status === DeliveryStatus.DELIVERED
+                        )
+                    })
+                },
+
+                setWebhookEnabled: (id, enabled) => {
+                    set({
+                        webhooks: get().webhooks.map((webhook) =>
+                            webhook.id === id ? { ...webhook, enabled } : webhook
+                        )
+                    })
+                },
+
+                enqueueDelivery: (delivery) => {
+                    set({ deliveries: [...get().deliveries, delivery] })
+                },
+
+                markDelivered: (id, responseStatus) => {
+                    const deliveries = get().deliveries.map((delivery) =>
+                        delivery.id === id
+                            ? {
+                                  ...delivery,
+                                  status: DeliveryStatus.DELIVERED,
+                                  attempts: delivery.attempts + 1,
+                                  lastAttemptAt: new Date(),
+                                  responseStatus,
+                                  lastError: undefined
+                              }
+                            : delivery
+                    )
+                    // Only the most recent deliveries are kept for the log
+                    const delivered = deliveries.filter((delivery) => delivery.status === DeliveryStatus.DELIVERED)
+                    const dropped = new Set(delivered.slice(0, -MAX_DELIVERED).map((delivery) => delivery.id))
+                    set({ deliveries: deliveries.filter((delivery) => !dropped.has(delivery.id)) })
+                },
+
+                markAttemptFailed: (id, error, responseStatus, nextAttemptAt) => {
+                    const delivery = get().deliveries.find((candidate) => candidate.id === id)
+                    // Another command may have delivered it meanwhile
+                    if (!delivery || delivery.status === DeliveryStatus.DELIVERED) return
+
+                    updateDelivery(id, {
+                        status: nextAttemptAt ? DeliveryStatus.PENDING : DeliveryStatus.FAILED,
+                        attempts: delivery.attempts + 1,
+                        lastAttemptAt: new Date(),
+                        responseStatus,
+                        lastError: error,
+                        nextAttemptAt: nextAttemptAt ?? delivery.nextAttemptAt
+                    })
+                },
+
+                retryDelivery: (id) => {
+                    updateDelivery(id, { status: DeliveryStatus.PENDING, attempts: 0, nextAttemptAt: new Date() })
+                },
+
+                discardDelivery: (id) => {
+                    set({ deliveries: get().deliveries.filter((delivery) => delivery.id !== id) })
+                },
+
+                clearDelivered: () => {
+                    set({
+                        deliveries: get().deliveries.filter((delivery) => delivery.status !== DeliveryStatus.DELIVERED)
+                    })
+                }
+            }
+        },
+        {
+            name: STORAGE_KEY,
+            storage: createLocalStorage(DATE_KEYS),
+            partialize: (state) => ({
+                webhooks: state.webhooks,
+                deliveries: state.deliveries
+            })
+        }
+    )
+)
+
+/**
+ * Send every pending delivery that is due, oldest first
+ * Each receiver fails on its own, so one that is unreachable does not hold back the others
+ */
+async function sendDueDeliveries(): Promise<void> {
+    await reloadWebhookStore()
+
+    const now = Date.now()
+    const { webhooks, deliveries } = useWebhookStore.getState()
+    const due = deliveries.filter(
+        (delivery) => delivery.status === DeliveryStatus.PENDING && delivery.nextAttemptAt.getTime() <= now
+    )
+
+    for (const delivery of due) {
+        const { markDelivered, markAttemptFailed } = useWebhookStore.getState()
+        const webhook = webhooks.find((candidate) => candidate.id === delivery.webhookId)
+        if (!webhook) {
+            await reloadWebhookStore()
+            markAttemptFailed(delivery.id, "The webhook was deleted")
+            continue
+        }
+
+        try {
+            const responseStatus = await sendDelivery(delivery, webhook.secret)
+            await reloadWebhookStore()
+            markDelivered(delivery.id, responseStatus)
+        } catch (error) {
+            const requestError = error instanceof RequestError ? error : new RequestError(String(error), false)
+            const attempts = delivery.attempts + 1
+            const retry = requestError.retryable && attempts < MAX_ATTEMPTS
+            await reloadWebhookStore()
+            markAttemptFailed(
+                delivery.id,
+                requestError.message,
+                requestError.status,
+                retry ? new Date(Date.now() + getRetryDelay(attempts)) : undefined
+            )
+        }
+    }
+}
+
+/**
+ * Start sending the due deliveries unless a run is already going
+ * `waitForWebhooks` waits for it
+ */
+export function deliverWebhooks(): Promise<void> {
+    if (!running) {
+        const run = sendDueDeliveries()
+            .catch((error) => console.error("Could not deliver webhooks", error))
+            .finally(() => {
+                pendingDeliveries.delete(run)
+                running = undefined
+            })
+        pendingDeliveries.add(run)
+        running = run
+    }
+    return running
+}
+
+/**
+ * Queue a delivery for every webhook that wants the collected events, then send what is due
+ */
+function queueUnsentEvents(): void {
+    const events = unsent
+    unsent = []
+    if (events.length === 0) return
+
+    const queued = reloadWebhookStore()
+        .then(() => {
+            const { webhooks, enqueueDelivery } = useWebhookStore.getState()
+            for (const { event, session, occurredAt, transition } of events) {
+                for (const webhook of webhooks.filter((candidate) => matchesWebhook(candidate, event))) {
+                    const id = randomUUID()
+                    enqueueDelivery({
+                        id,
+                        webhookId: webhook.id,
+                        webhookName: webhook.name,
+                        url: webhook.url,
+                        event,
+                        body: JSON.stringify(createPayload(id, event, session, occurredAt, transition)),
+                        status: DeliveryStatus.PENDING,
+                        attempts: 0,
+                        createdAt: occurredAt,
+                        nextAttemptAt: occurredAt
+                    })
+                }
+            }
+        })
+        // A run that is already going would miss the new deliveries
+        .then(() => running)
+        .then(deliverWebhooks)
+        .catch((error) => console.error("Could not queue webhook deliveries", error))
+        .finally(() => pendingDeliveries.delete(queued))
+    pendingDeliveries.add(queued)
+}
+
+/**
+ * Deliver session events to the matching webhooks from now on, and send what is due
+ * Call at the top of every command that changes the timer, like `registerLifecycleHooks`
+ */
+export function registerWebhooks(): void {
+    if (registered) return
+    registered = true
+
+    onSessionEvent((event, session) => {
+        unsent.push({ event, session, occurredAt: new Date() })
+        // The transition of a timer action is reported right after its events, in the same call
+        // Events that none follows, like sessions that finished while nothing was open, go out without one
+        if (unsent.length === 1) {
+            queueMicrotask(queueUnsentEvents)
+        }
+    })
+
+    onTimerTransition((transition) => {
+        for (const entry of unsent) {
+            entry.transition ??= transition
+        }
+        queueUnsentEvents()
+    })
+
+    deliverWebhooks()
+}
+
+/**
+ * Wait until queued deliveries are stored and the running deliveries finished
+ * No-view and menu bar commands must call this before returning or a delivery may be cut off
+ */
+export async function waitForWebhooks(): Promise<void> {
+    // Events of the action that just ran are queued on a microtask
+    await Promise.resolve()
+    await Promise.all(Array.from(pendingDeliveries))
+}
+
+/**
+ * Load the persisted webhooks and deliveries, for commands that run outside React
+ */
+export async function hydrateWebhookStore(): Promise<void> {
+    await hydrateStore(useWebhookStore.persist)
+}
+
+/**
+ * Load the webhooks and deliveries again when another command changed them, before this one changes them
+ * Otherwise its stale copy would be written back and drop the deliveries the other command queued
+ */
+export async function reloadWebhookStore(): Promise<void> {
+    await hydrateWebhookStore()
+    await reloadStore(useWebhookStore.persist)
+}
+
+/**
+ * Track whether the persisted webhooks and deliveries have been loaded into the store
+ */
+export function useWebhookHydration(): boolean {
+    return useHydration(useWebhookStore.persist)
+}
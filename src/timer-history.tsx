@@ -0,0 +1,333 @@
+import { Action, ActionPanel, Alert, Color, confirmAlert, Icon, List, showToast, Toast } from "@raycast/api"
+import { format, isToday, isYesterday, startOfDay } from "date-fns"
+import { useMemo, useState } from "react"
+import { EventLogList } from "./components/event-log-list"
+import { ExportForm } from "./components/export-form"
+import { ImportForm } from "./components/import-form"
+import { InterruptionStats } from "./components/interruption-stats"
+import { ReflectionForm } from "./components/reflection-form"
+import { SessionDetail } from "./components/session-detail"
+import { SessionTaskForm } from "./components/session-task-form"
+import { StatsDashboard } from "./components/stats-dashboard"
+import { reloadPomodoroStore, usePomodoroHydration, usePomodoroStore } from "./store/pomodoro-store"
+import { registerSessionListeners } from "./store/session-listeners"
+import { SessionLabels, SessionType, TimerSession } from "./types/timer"
+import { getElapsedSeconds } from "./utils/timer-engine"
+import {
+    formatClockTime,
+    formatDuration,
+    formatInterruption,
+    getSessionLabel,
+    getSessionTypeIcon,
+    getSessionTypeLabel
+} from "./utils/timer-format"
+
+const ALL_FILTER = "all"
+const TYPE_FILTER_PREFIX = "type:"
+const PROJECT_FILTER_PREFIX = "project:"
+
+registerSessionListeners()
+
+interface DaySection {
+    day: Date
+    sessions: TimerSession[]
+}
+
+/**
+ * Check a session against the dropdown filter value
+ */
+function matchesFilter(session: TimerSession, filter: string): boolean {
+    if (filter.startsWith(TYPE_FILTER_PREFIX)) {
+        return session.type === filter.slice(TYPE_FILTER_PREFIX.length)
+    }
+    if (filter.startsWith(PROJECT_FILTER_PREFIX)) {
+        return session.projectName === filter.slice(PROJECT_FILTER_PREFIX.length)
+    }
+    return true
+}
+
+/**
+ * Whether the task name or the reflection of a session contains the search query
+ */
+function matchesSearch(session: TimerSession, query: string): boolean {
+    const { reflection } = session
+    return [session.taskName, reflection?.accomplished, reflection?.notes].some((text) =>
+        text?.toLowerCase().includes(query)
+    )
+}
+
+/**
+ * Group sessions by the day they started, newest day first
+ */
+function groupByDay(sessions: TimerSession[]): DaySection[] {
+    const sections = new Map<number, DaySection>()
+    const sorted = [...sessions].sort((a, b) => b.startTime.getTime() - a.startTime.getTime())
+
+    for (const session of sorted) {
+        const day = startOfDay(session.startTime)
+        const section = sections.get(day.getTime()) ?? { day, sessions: [] }
+        section.sessions.push(session)
+        sections.set(day.getTime(), section)
+    }
+
+    return Array.from(sections.values())
+}
+
+/**
+ * Section subtitle for a day, e.g. "4 sessions · 2 interruptions"
+ */
+function formatDaySubtitle(sessions: TimerSession[]): string {
+    const interruptions = sessions.reduce((total, session) => total + session.interruptions.length, 0)
+    const parts = [`${sessions.length} ${sessions.length === 1 ? "session" : "sessions"}`]
+    if (interruptions > 0) {
+        parts.push(`${interruptions} ${interruptions === 1 ? "interruption" : "interruptions"}`)
+    }
+    return parts.join(" · ")
+}
+
+/**
+ * Tooltip listing a session's interruptions
+ */
+function formatInterruptions(session: TimerSession): string {
+    return session.interruptions.map(formatInterruption).join("\n")
+}
+
+/**
+ * Section heading for a day
+ */
+function formatDayTitle(day: Date): string {
+    if (isToday(day)) return "Today"
+    if (isYesterday(day)) return "Yesterday"
+    return format(day, "EEEE, MMMM d, yyyy")
+}
+
+function HistoryFilterDropdown({ projects, onChange }: { projects: string[]; onChange: (value: string) => void }) {
+    return (
+        <List.Dropdown tooltip="Filter Sessions" storeValue onChange={onChange}>
+            <List.Dropdown.Item title="All Sessions" value={ALL_FILTER} icon={Icon.List} />
+            <List.Dropdown.Section title="Session Type">
+                {Object.values(SessionType).map((type) => (
+                    <List.Dropdown.Item
+                        key={type}
+                        title={getSessionTypeLabel(type)}
+                        value={`${TYPE_FILTER_PREFIX}${type}`}
+                        icon={getSessionTypeIcon(type)}
+                    />
+                ))}
+            </List.Dropdown.Section>
+            {projects.length > 0 && (
+                <List.Dropdown.Section title="Project">
+                    {projects.map((project) => (
+                        <List.Dropdown.Item
+                            key={project}
+                            title={project}
+                            value={`${PROJECT_FILTER_PREFIX}${project}`}
+                            icon={Icon.Folder}
+                        />
+                    ))}
+                </List.Dropdown.Section>
+            )}
+        </List.Dropdown>
+    )
+}
+
+export default function Command() {
+    const hydrated = usePomodoroHydration()
+    const history = usePomodoroStore((state) => state.history)
+    const updateHistorySession = usePomodoroStore((state) => state.updateHistorySession)
+    const deleteHistorySession = usePomodoroStore((state) => state.deleteHistorySession)
+    const [searchText, setSearchText] = useState("")
+    const [filter, setFilter] = useState(ALL_FILTER)
+
+    const projects = useMemo(
+        () =>
+            Array.from(
+                new Set(history.map((session) => session.projectName).filter((name): name is string => !!name))
+            ).sort(),
+        [history]
+    )
+
+    const sections = useMemo(() => {
+        const query = searchText.trim().toLowerCase()
+        const filtered = history.filter(
+            (session) => matchesFilter(session, filter) && (!query || matchesSearch(session, query))
+        )
+        return groupByDay(filtered)
+    }, [history, filter, searchText])
+
+    async function handleDelete(session: TimerSession) {
+        const confirmed = await confirmAlert({
+            title: "Delete Session",
+            message: `Are you sure you want to delete this ${getSessionLabel(session).toLowerCase()} session?`,
+            primaryAction: {
+                title: "Delete",
+                style: Alert.ActionStyle.Destructive
+            }
+        })
+
+        if (!confirmed) return
+
+        await reloadPomodoroStore()
+        deleteHistorySession(session.id)
+        await showToast({ style: Toast.Style.Success, title: "Session deleted" })
+    }
+
+    // Edits start from the latest persisted state, so the menu bar's changes made meanwhile are kept
+    async function handleEdit(session: TimerSession, labels: SessionLabels) {
+        await reloadPomodoroStore()
+        updateHistorySession(session.id, labels)
+    }
+
+    async function handleMarkCompleted(session: TimerSession) {
+        await reloadPomodoroStore()
+        updateHistorySession(session.id, { completed: true })
+        await showToast({ style: Toast.Style.Success, title: "Session marked as completed" })
+    }
+
+    return (
+        <List
+            isLoading={!hydrated}
+            searchBarPlaceholder="Search tasks and notes..."
+            onSearchTextChange={setSearchText}
+            searchText={searchText}
+            searchBarAccessory={<HistoryFilterDropdown projects={projects} onChange={setFilter} />}
+        >
+            {sections.map(({ day, sessions }) => (
+                <List.Section key={day.getTime()} title={formatDayTitle(day)} subtitle={formatDaySubtitle(sessions)}>
+                    {sessions.map((session) => (
+                        <List.Item
+                            key={session.id}
+                            title={session.taskName || getSessionLabel(session)}
+                            subtitle={session.projectName}
+                            icon={getSessionTypeIcon(session.type)}
+                            accessories={[
+                                ...(session.interruptions.length > 0
+                                    ? [
+                                          {
+                                              icon: Icon.Bell,
+                                              text: session.interruptions.length.toString(),
+                                              tooltip: formatInterruptions(session)
+                                          }
+                                      ]
+                                    : []),
+                                ...(session.reflection?.focusRating
+                                    ? [
+                                          {
+                                              icon: Icon.Star,
+                                              text: session.reflection.focusRating.toString(),
+                                              tooltip: "Focus rating"
+                                          }
+                                      ]
+                                    : []),
+                                { text: formatDuration(getElapsedSeconds(session)), tooltip: "Focused time" },
+                                {
+                                    text: session.endTime
+                                        ? `${formatClockTime(session.startTime)} – ${formatClockTime(session.endTime)}`
+                                        : formatClockTime(session.startTime)
+                                },
+                                session.completed
+                                    ? { tag: { value: "Completed", color: Color.Green } }
+                                    : { tag: { value: "Aborted", color: Color.SecondaryText } }
+                            ]}
+                            actions={
+                                <ActionPanel>
+                                    <ActionPanel.Section>
+                                        <Action.Push
+                                            title="Show Details"
+                                            icon={Icon.Sidebar}
+                                            target={<SessionDetail sessionId={session.id} />}
+                                        />
+                                        <Action.Push
+                                            title={session.reflection ? "Edit Reflection" : "Add Reflection"}
+                                            icon={Icon.Bubble}
+                                            shortcut={{ modifiers: ["cmd"], key: "r" }}
+                                            target={<ReflectionForm session={session} />}
+                                        />
+                                        <Action.Push
+                                            title="Edit Task"
+                                            icon={Icon.Pencil}
+                                            shortcut={{ modifiers: ["cmd"], key: "t" }}
+                                            target={
+                                                <SessionTaskForm
+                                                    title="Save Session"
+                                                    labels={session}
+                                                    onSubmit={(labels) => handleEdit(session, labels)}
+                                                />
+                                            }
+                                        />
+                                        {!session.completed && (
+                                            <Action
+                                                title="Mark as Completed"
+                                                icon={Icon.CheckCircle}
+                                                shortcut={{ modifiers: ["cmd"], key: "d" }}
+                                                onAction={() => handleMarkCompleted(session)}
+                                            />
+                                        )}
+                                    </ActionPanel.Section>
+                                    <ActionPanel.Section>
+                                        <Action.Push
+                                            title="Export History"
+                                            icon={Icon.Download}
+                                            shortcut={{ modifiers: ["cmd"], key: "e" }}
+                                            target={<ExportForm history={history} />}
+                                        />
+                                        <Action.Push
+                                            title="Import Sessions"
+                                            icon={Icon.Upload}
+                                            shortcut={{ modifiers: ["cmd"], key: "i" }}
+                                            target={<ImportForm />}
+                                        />
+                                        <Action.Push
+                                            title="Show Interruptions"
+                                            icon={Icon.Bell}
+                                            shortcut={{ modifiers: ["cmd", "shift"], key: "i" }}
+                                            target={<InterruptionStats history={history} />}
+                                        />
+                                        <Action.Push
+                                            title="Show Statistics"
+                                            icon={Icon.BarChart}
+                                            shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+                                            target={<StatsDashboard history={history} />}
+                                        />
+                                        <Action.Push
+                                            title="Show Event Log"
+                                            icon={Icon.List}
+                                            shortcut={{ modifiers: ["cmd", "shift"], key: "l" }}
+                                            target={<EventLogList />}
+                                        />
+                                    </ActionPanel.Section>
+                                    <ActionPanel.Section>
+                                        <Action
+                                            title="Delete Session"
+                                            icon={Icon.Trash}
+                                            style={Action.Style.Destructive}
+                                            shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                                            onAction={() => handleDelete(session)}
+                                        />
+                                    </ActionPanel.Section>
+                                </ActionPanel>
+                            }
+                        />
+                    ))}
+                </List.Section>
+            ))}
+            {hydrated && sections.length === 0 && (
+                <List.EmptyView
+                    title="No sessions found"
+                    description={
+                        searchText || filter !== ALL_FILTER
+                            ? "No sessions match your search or filter."
+                            : "Completed and stopped sessions will appear here."
+                    }
+                    icon={Icon.Clock}
+                    actions={
+                        <ActionPanel>
+                            <Action.Push title="Import Sessions" icon={Icon.Upload} target={<ImportForm />} />
+                            <Action.Push title="Show Event Log" icon={Icon.List} target={<EventLogList />} />
+                        </ActionPanel>
+                    }
+                />
+            )}
+        </List>
+    )
+}
@@ -0,0 +1,38 @@
+import { SessionEvent, TimerConfig, TimerSession } from './timer'
+
+export enum LogEntryKind {
+  SESSION = 'session', // a session started, paused, resumed or ended
+  RECORD = 'record', // a recorded session as it is now: edited, imported, or already there when the log started
+  DELETE = 'delete', // a recorded session was deleted
+  CONFIG = 'config' // the timer settings, profile or sequence changed
+}
+
+interface BaseLogEntry {
+  id: string
+  at: Date
+}
+
+export interface SessionLogEntry extends BaseLogEntry {
+  kind: LogEntryKind.SESSION
+  event: SessionEvent
+  session: TimerSession // as it was once the event happened
+}
+
+export interface RecordLogEntry extends BaseLogEntry {
+  kind: LogEntryKind.RECORD
+  session: TimerSession
+}
+
+export interface DeleteLogEntry extends BaseLogEntry {
+  kind: LogEntryKind.DELETE
+  sessionId: string
+}
+
+export interface ConfigLogEntry extends BaseLogEntry {
+  kind: LogEntryKind.CONFIG
+  config: TimerConfig
+  activeProfileId?: string
+  activeSequenceId?: string
+}
+
+export type TimerLogEntry = SessionLogEntry | RecordLogEntry | DeleteLogEntry | ConfigLogEntry
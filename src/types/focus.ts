@@ -0,0 +1,19 @@
+export interface BlockedProcess {
+  name: string // process name as listed by tasklist, e.g. slack.exe
+  pids: string[]
+}
+
+export interface FocusState {
+  enabled: boolean
+  blockedApps: string[] // lowercase process names, e.g. slack.exe
+  closeAutomatically: boolean // close blocked apps without asking when a work session starts
+}
+
+export interface FocusActions {
+  setFocusEnabled: (enabled: boolean) => void
+  setCloseAutomatically: (closeAutomatically: boolean) => void
+  blockApp: (name: string) => void
+  unblockApp: (name: string) => void
+}
+
+export type FocusStore = FocusState & FocusActions
@@ -0,0 +1,38 @@
+export enum GoalPeriod {
+  DAILY = 'daily',
+  WEEKLY = 'weekly'
+}
+
+export enum GoalMetric {
+  SESSIONS = 'sessions', // completed work sessions
+  MINUTES = 'minutes' // minutes of focus in work sessions
+}
+
+export interface FocusGoal {
+  id: string
+  period: GoalPeriod
+  metric: GoalMetric
+  target: number
+  projectId?: string // unset for goals across all projects
+}
+
+export interface GoalProgress {
+  goal: FocusGoal
+  periodStart: Date
+  value: number // in the goal's metric
+  fraction: number // 0 to 1
+  reached: boolean
+}
+
+export interface GoalState {
+  goals: FocusGoal[]
+  announced: string[] // goals already announced for their current period
+}
+
+export interface GoalActions {
+  saveGoal: (goal: Omit<FocusGoal, 'id'> & { id?: string }) => FocusGoal
+  deleteGoal: (id: string) => void
+  markAnnounced: (progress: GoalProgress[]) => void
+}
+
+export type GoalStore = GoalState & GoalActions
@@ -0,0 +1,38 @@
+import { SessionEvent, SessionType } from './timer'
+
+export interface LifecycleHook {
+  id: string
+  name: string
+  event: SessionEvent
+  sessionTypes: SessionType[] // empty for every session type
+  command: string // may contain placeholders such as {task}
+  timeout: number // in seconds
+  enabled: boolean
+}
+
+export interface HookRun {
+  id: string
+  hookId: string
+  hookName: string
+  event: SessionEvent
+  command: string // with placeholders replaced
+  startedAt: Date
+  duration: number // in milliseconds
+  success: boolean
+  output?: string // stdout, or the error message of a failed run
+}
+
+export interface HookState {
+  hooks: LifecycleHook[]
+  runs: HookRun[] // most recent first
+}
+
+export interface HookActions {
+  saveHook: (hook: Omit<LifecycleHook, 'id'> & { id?: string }) => LifecycleHook
+  deleteHook: (id: string) => void
+  setHookEnabled: (id: string, enabled: boolean) => void
+  recordRun: (run: HookRun) => void
+  clearRuns: () => void
+}
+
+export type HookStore = HookState & HookActions
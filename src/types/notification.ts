@@ -0,0 +1,41 @@
+import { SessionType } from './timer'
+
+export interface SessionNotification {
+  soundFile?: string // played when a session of this type completes, silent when empty
+  volume: number // 0-100
+  repeat: number // how many times the sound plays
+  template: string // HUD or toast text, may contain placeholders such as {label}
+}
+
+export interface NotificationState {
+  sessions: Record<SessionType, SessionNotification>
+  tickInLastMinute: boolean // tick every second during the last minute while the timer is open
+  tickFile?: string
+  tickVolume: number // 0-100
+}
+
+export type TickSettings = Pick<NotificationState, 'tickInLastMinute' | 'tickFile' | 'tickVolume'>
+
+export interface NotificationActions {
+  updateSessionNotification: (type: SessionType, changes: Partial<SessionNotification>) => void
+  updateTickSettings: (changes: Partial<TickSettings>) => void
+  resetNotifications: () => void
+}
+
+export type NotificationStore = NotificationState & NotificationActions
+
+export interface PlaybackOptions {
+  volume: number // 0-100
+  repeat: number
+  interval?: number // minimum milliseconds between the starts of two plays
+}
+
+export interface SoundPlayback {
+  done: Promise<void> // settles once every repeat played or the playback was stopped
+  stop: () => void
+}
+
+export interface SoundPlayer {
+  name: string
+  play: (file: string, options: PlaybackOptions) => SoundPlayback
+}
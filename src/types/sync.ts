@@ -0,0 +1,48 @@
+export enum SyncStatus {
+  PENDING = 'pending', // waiting for its next attempt
+  FAILED = 'failed', // rejected by the time tracker or out of attempts, retried only on request
+  SYNCED = 'synced'
+}
+
+export interface TimeEntry {
+  description: string // the task, or the session label without one
+  project?: string
+  start: string // ISO 8601
+  end: string // ISO 8601
+  duration: number // focused seconds, without pauses
+  tags: string[]
+}
+
+export interface SyncItem {
+  id: string
+  sessionId: string // also sent as the idempotency key, so an entry retried or queued by two commands is recorded once
+  entry: TimeEntry
+  status: SyncStatus
+  attempts: number
+  createdAt: Date
+  nextAttemptAt: Date
+  lastError?: string
+  syncedAt?: Date
+  remoteId?: string // id of the time entry in the time tracker
+}
+
+export interface SyncSettings {
+  baseUrl: string // without a trailing slash
+  apiToken?: string
+}
+
+export interface SyncState {
+  items: SyncItem[] // oldest first
+}
+
+export interface SyncActions {
+  enqueueEntry: (sessionId: string, entry: TimeEntry) => void
+  markSynced: (id: string, remoteId?: string) => void
+  markAttemptFailed: (id: string, error: string, nextAttemptAt?: Date) => void // fails the item for good without a next attempt
+  retryItem: (id: string) => void
+  retryAll: () => void // pending and failed items, right away
+  discardItem: (id: string) => void
+  clearSynced: () => void
+}
+
+export type SyncStore = SyncState & SyncActions
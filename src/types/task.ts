@@ -0,0 +1,34 @@
+export interface Project {
+  id: string
+  name: string
+  archived: boolean
+  createdAt: Date
+}
+
+export interface Task {
+  id: string
+  name: string
+  projectId?: string
+  estimatedPomodoros?: number
+  completed: boolean
+  archived: boolean
+  createdAt: Date
+  completedAt?: Date
+}
+
+export interface TaskState {
+  tasks: Task[]
+  projects: Project[]
+}
+
+export interface TaskActions {
+  addProject: (name: string) => Project
+  updateProject: (id: string, changes: Partial<Pick<Project, 'name'>>) => void
+  setProjectArchived: (id: string, archived: boolean) => void
+  addTask: (task: Pick<Task, 'name' | 'projectId' | 'estimatedPomodoros'>) => Task
+  updateTask: (id: string, changes: Partial<Pick<Task, 'name' | 'projectId' | 'estimatedPomodoros'>>) => void
+  setTaskCompleted: (id: string, completed: boolean) => void
+  setTaskArchived: (id: string, archived: boolean) => void
+}
+
+export type TaskStore = TaskState & TaskActions
@@ -1,8 +1,9 @@
+import { Project, Task } from './task'
+
 export enum TimerState {
   IDLE = 'idle',
   RUNNING = 'running',
-  PAUSED = 'paused',
-  COMPLETED = 'completed'
+  PAUSED = 'paused'
 }
 
 export enum SessionType {
@@ -11,6 +12,64 @@ export enum SessionType {
   LONG_BREAK = 'long_break'
 }
 
+export enum SessionEvent {
+  START = 'start',
+  PAUSE = 'pause',
+  RESUME = 'resume',
+  COMPLETE = 'complete',
+  SKIP = 'skip',
+  STOP = 'stop'
+}
+
+export enum InterruptionType {
+  INTERNAL = 'internal', // our own urge to switch tasks
+  EXTERNAL = 'external' // someone or something else
+}
+
+export interface Interruption {
+  id: string
+  type: InterruptionType
+  loggedAt: Date
+  note?: string
+}
+
+export enum IdleResolution {
+  DISCARD = 'discard', // the idle time does not count at all
+  BREAK = 'break', // the idle time counts as break time
+  WORK = 'work' // the idle time counts as work after all
+}
+
+export interface PauseInterval {
+  start: Date
+  end?: Date // unset while the session is paused
+  idle?: boolean // paused automatically because we were away
+  countsAsBreak?: boolean // idle time that was counted as a break
+}
+
+export interface SequenceSegment {
+  name: string
+  duration: number // in minutes
+  countsAsWork: boolean
+}
+
+export interface SessionSequence {
+  id: string
+  name: string
+  segments: SequenceSegment[]
+}
+
+export interface SegmentRef {
+  sequenceId: string
+  index: number // position of the segment in its sequence
+  name: string
+}
+
+export interface SessionReflection {
+  accomplished?: string
+  focusRating?: number // 1 (distracted) to 5 (deep focus)
+  notes?: string
+}
+
 export interface TimerSession {
   id: string
   type: SessionType
@@ -18,10 +77,20 @@ export interface TimerSession {
   startTime: Date
   endTime?: Date
   completed: boolean
-  taskName?: string
-  projectName?: string
+  pauses: PauseInterval[]
+  interruptions: Interruption[]
+  segment?: SegmentRef // set for sessions started from a custom sequence
+  reflection?: SessionReflection // filled in after the session
+  taskId?: string
+  projectId?: string
+  taskName?: string // kept in sync with the task when `taskId` is set
+  projectName?: string // kept in sync with the project when `projectId` is set
 }
 
+export type SessionLabels = Pick<TimerSession, 'taskId' | 'projectId' | 'taskName' | 'projectName'>
+
+export type TimerSessionChanges = Partial<SessionLabels & Pick<TimerSession, 'completed' | 'reflection'>>
+
 export interface TimerConfig {
   workDuration: number // in minutes
   shortBreakDuration: number // in minutes
@@ -30,6 +99,17 @@ export interface TimerConfig {
   enableNotifications: boolean
   autoStartBreaks: boolean
   autoStartWork: boolean
+  reflectAfterWork: boolean
+  idleThreshold: number // in minutes of no input before a work session pauses, 0 turns idle detection off
+}
+
+export interface TimerProfile {
+  id: string
+  name: string
+  workDuration: number // in minutes
+  shortBreakDuration: number // in minutes
+  longBreakDuration: number // in minutes
+  longBreakInterval: number
 }
 
 export interface TimerStats {
@@ -38,31 +118,95 @@ export interface TimerStats {
   totalWorkTime: number // in seconds
   totalBreakTime: number // in seconds
   streakCount: number
+  totalInterruptions: number
+  todaysInterruptions: number
   todaysSessions: number
   weekSessions: number
   monthSessions: number
 }
 
+export interface UndoSnapshot {
+  action: UndoableAction
+  takenAt: Date // when the action ran; the undo window starts here
+  currentSession: TimerSession | null
+  state: TimerState
+  sessionCount: number
+  resultSessionId?: string // the session the action left current, e.g. the next one started by a skip
+}
+
 export interface PomodoroState {
   currentSession: TimerSession | null
   state: TimerState
-  timeRemaining: number // in seconds
   sessionCount: number
   config: TimerConfig
   stats: TimerStats
   history: TimerSession[]
+  customProfiles: TimerProfile[]
+  activeProfileId?: string // unset when the preferences are used
+  customSequences: SessionSequence[]
+  activeSequenceId?: string // unset for the classic work/break cycle
+  undo?: UndoSnapshot // the state before the last stop, reset or skip
 }
 
 export interface TimerActions {
-  startTimer: (type: SessionType, taskName?: string, projectName?: string) => void
+  startTimer: (type: SessionType, taskName?: string, projectName?: string, duration?: number) => void // duration in seconds, overrides the config
   pauseTimer: () => void
   resumeTimer: () => void
+  pauseForIdle: (since: Date) => void
+  resolveIdle: (resolution: IdleResolution) => void
   stopTimer: () => void
   resetTimer: () => void
   skipSession: () => void
+  undoLastAction: () => void
+  completeSession: () => void
+  logInterruption: (type: InterruptionType, note?: string) => void
+  syncTimer: () => void
   updateConfig: (config: Partial<TimerConfig>) => void
+  saveProfile: (profile: Omit<TimerProfile, 'id'> & { id?: string }) => TimerProfile
+  deleteProfile: (id: string) => void
+  activateProfile: (id?: string) => void
+  saveSequence: (sequence: Omit<SessionSequence, 'id'> & { id?: string }) => SessionSequence
+  deleteSequence: (id: string) => void
+  activateSequence: (id?: string) => void
+  startSegment: (index: number) => void
+  getNextSegmentIndex: () => number | undefined
   addTaskToSession: (taskName: string, projectName?: string) => void
+  assignTaskToSession: (labels: SessionLabels) => void
+  relabelSessions: (tasks: Task[], projects: Project[]) => void
   getNextSessionType: () => SessionType
+  updateHistorySession: (id: string, changes: TimerSessionChanges) => void
+  deleteHistorySession: (id: string) => void
+  importSessions: (sessions: TimerSession[]) => void
+  replaceHistory: (history: TimerSession[]) => void
+  refreshStats: () => void
 }
 
 export type PomodoroStore = PomodoroState & TimerActions
+
+export type TimerAction = keyof TimerActions
+
+export type UndoableAction = Extract<TimerAction, 'stopTimer' | 'resetTimer' | 'skipSession'>
+
+export interface TimerTransition {
+  action: TimerAction
+  from: TimerState
+  to: TimerState
+  session: TimerSession | null // the current session once the action ran
+  at: Date
+}
+
+export enum LaunchAction {
+  START = 'start',
+  PAUSE = 'pause',
+  RESUME = 'resume',
+  SKIP = 'skip',
+  STOP = 'stop'
+}
+
+export interface TimerLaunchContext {
+  action: LaunchAction
+  type?: SessionType // start only, defaults to the next session of the cycle
+  task?: string // start only
+  project?: string // start only
+  duration?: number // start only, in minutes, overrides the config
+}
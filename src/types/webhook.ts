@@ -0,0 +1,63 @@
+import { SessionEvent, TimerAction, TimerSession, TimerState } from './timer'
+
+export interface Webhook {
+  id: string
+  name: string
+  url: string
+  secret: string // key of the HMAC-SHA256 signature sent with every request
+  events: SessionEvent[]
+  enabled: boolean
+}
+
+export interface WebhookPayload {
+  id: string // the delivery id, the same for every attempt
+  event: SessionEvent
+  occurredAt: string // ISO 8601
+  transition: {
+    action: TimerAction
+    from: TimerState
+    to: TimerState
+  } | null // null when the event did not come from a timer action, like a session ending while nothing was open
+  session: TimerSession
+}
+
+export enum DeliveryStatus {
+  PENDING = 'pending', // waiting for its next attempt
+  FAILED = 'failed', // rejected by the receiver or out of attempts, retried only on request
+  DELIVERED = 'delivered'
+}
+
+export interface WebhookDelivery {
+  id: string
+  webhookId: string
+  webhookName: string
+  url: string
+  event: SessionEvent
+  body: string // the JSON payload, kept as sent so every attempt carries the same bytes
+  status: DeliveryStatus
+  attempts: number
+  createdAt: Date
+  nextAttemptAt: Date
+  lastAttemptAt?: Date
+  responseStatus?: number // HTTP status of the last attempt, unset when the receiver was not reached
+  lastError?: string
+}
+
+export interface WebhookState {
+  webhooks: Webhook[]
+  deliveries: WebhookDelivery[] // oldest first
+}
+
+export interface WebhookActions {
+  saveWebhook: (webhook: Omit<Webhook, 'id'> & { id?: string }) => Webhook
+  deleteWebhook: (id: string) => void
+  setWebhookEnabled: (id: string, enabled: boolean) => void
+  enqueueDelivery: (delivery: WebhookDelivery) => void
+  markDelivered: (id: string, responseStatus: number) => void
+  markAttemptFailed: (id: string, error: string, responseStatus?: number, nextAttemptAt?: Date) => void // fails the delivery for good without a next attempt
+  retryDelivery: (id: string) => void
+  discardDelivery: (id: string) => void
+  clearDelivered: () => void
+}
+
+export type WebhookStore = WebhookState & WebhookActions
@@ -0,0 +1,139 @@
+/**
+ * SVG charts for the statistics dashboard, embedded in markdown as data URLs
+ */
+
+import { format } from "date-fns"
+import { CalendarDay } from "./statistics"
+import { formatDuration } from "./timer-format"
+
+export interface ChartTheme {
+    text: string
+    empty: string // cells and bars without any value
+    levels: string[] // heatmap shades, least to most
+    bar: string
+}
+
+const LIGHT_THEME: ChartTheme = {
+    text: "#57606a",
+    empty: "#ebedf0",
+    levels: ["#fdd5cf", "#f99d8f", "#f2604c", "#c9311d"],
+    bar: "#f2604c"
+}
+
+const DARK_THEME: ChartTheme = {
+    text: "#8b949e",
+    empty: "#2d333b",
+    levels: ["#5c231b", "#8f3426", "#cf4a36", "#f57a66"],
+    bar: "#f57a66"
+}
+
+const FONT = 'font-family="Segoe UI, sans-serif" font-size="10"'
+
+const CELL = 12
+const CELL_GAP = 3
+const HEATMAP_LEFT = 30
+const HEATMAP_TOP = 16
+
+const BAR_WIDTH = 18
+const BAR_GAP = 4
+const HISTOGRAM_HEIGHT = 120
+const HISTOGRAM_TOP = 16
+const HISTOGRAM_BOTTOM = 18
+
+/**
+ * Colors that read well on the current Raycast appearance
+ */
+export function getChartTheme(appearance: "light" | "dark"): ChartTheme {
+    return appearance === "dark" ? DARK_THEME : LIGHT_THEME
+}
+
+/**
+ * Markdown image of an SVG document
+ */
+export function toMarkdownImage(svg: string, alt: string): string {
+    return `![${alt}](data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")})`
+}
+
+function svgDocument(width: number, height: number, content: string[]): string {
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+        ...content,
+        "</svg>"
+    ].join("")
+}
+
+/**
+ * Shade of a heatmap cell, scaled to the busiest day shown
+ */
+function getHeatmapColor(count: number, max: number, theme: ChartTheme): string {
+    if (count === 0 || max === 0) return theme.empty
+    const level = Math.ceil((count / max) * theme.levels.length) - 1
+    return theme.levels[Math.min(level, theme.levels.length - 1)]
+}
+
+/**
+ * GitHub-style calendar of completed pomodoros: one column per week, one row per weekday
+ */
+export function renderHeatmap(weeks: CalendarDay[][], theme: ChartTheme): string {
+    const max = Math.max(0, ...weeks.flat().map((day) => day.completedWorkSessions))
+    const content: string[] = []
+
+    // Label every other weekday, like GitHub does
+    weeks[0]?.forEach((day, row) => {
+        if (row % 2 === 1) {
+            const y = HEATMAP_TOP + row * (CELL + CELL_GAP) + CELL - 2
+            content.push(`<text x="0" y="${y}" fill="${theme.text}" ${FONT}>${format(day.day, "EEE")}</text>`)
+        }
+    })
+
+    weeks.forEach((week, column) => {
+        const x = HEATMAP_LEFT + column * (CELL + CELL_GAP)
+        const monthStart = week.find((day) => day.day.getDate() === 1)
+        if (column === 0 || monthStart) {
+            const label = format((monthStart ?? week[0]).day, "MMM")
+            content.push(`<text x="${x}" y="${HEATMAP_TOP - 5}" fill="${theme.text}" ${FONT}>${label}</text>`)
+        }
+
+        week.forEach((day, row) => {
+            if (day.future) return
+            const y = HEATMAP_TOP + row * (CELL + CELL_GAP)
+            const color = getHeatmapColor(day.completedWorkSessions, max, theme)
+            content.push(`<rect x="${x}" y="${y}" width="${CELL}" height="${CELL}" rx="2" fill="${color}"/>`)
+        })
+    })
+
+    const width = HEATMAP_LEFT + weeks.length * (CELL + CELL_GAP)
+    const height = HEATMAP_TOP + 7 * (CELL + CELL_GAP)
+    return svgDocument(width, height, content)
+}
+
+/**
+ * Bar chart of work time per hour of the day, from midnight to 23:00
+ */
+export function renderHourHistogram(hours: number[], theme: ChartTheme): string {
+    const max = Math.max(...hours)
+    const content: string[] = []
+
+    if (max > 0) {
+        content.push(`<text x="0" y="10" fill="${theme.text}" ${FONT}>${formatDuration(max)}</text>`)
+    }
+
+    hours.forEach((seconds, hour) => {
+        const x = hour * (BAR_WIDTH + BAR_GAP)
+        const height = max > 0 ? Math.max(seconds > 0 ? 2 : 0, (seconds / max) * HISTOGRAM_HEIGHT) : 0
+        const y = HISTOGRAM_TOP + HISTOGRAM_HEIGHT - height
+        content.push(
+            `<rect x="${x}" y="${HISTOGRAM_TOP}" width="${BAR_WIDTH}" height="${HISTOGRAM_HEIGHT}" rx="2" fill="${theme.empty}"/>`
+        )
+        if (height > 0) {
+            content.push(`<rect x="${x}" y="${y}" width="${BAR_WIDTH}" height="${height}" rx="2" fill="${theme.bar}"/>`)
+        }
+        if (hour % 3 === 0) {
+            const labelY = HISTOGRAM_TOP + HISTOGRAM_HEIGHT + HISTOGRAM_BOTTOM - 4
+            content.push(`<text x="${x}" y="${labelY}" fill="${theme.text}" ${FONT}>${hour}:00</text>`)
+        }
+    })
+
+    const width = hours.length * (BAR_WIDTH + BAR_GAP)
+    return svgDocument(width, HISTOGRAM_TOP + HISTOGRAM_HEIGHT + HISTOGRAM_BOTTOM, content)
+}
@@ -0,0 +1,169 @@
+/**
+ * Parsing and validation of timer settings
+ * Preferences are free text fields, so every value is checked before it reaches TimerConfig
+ */
+
+import { getPreferenceValues, openExtensionPreferences, showToast, Toast } from "@raycast/api"
+import { TimerConfig, TimerProfile } from "../types/timer"
+
+export type DurationSettings = Pick<
+    TimerConfig,
+    "workDuration" | "shortBreakDuration" | "longBreakDuration" | "longBreakInterval"
+>
+
+export interface ConfigIssue {
+    field: keyof DurationSettings
+    message: string
+}
+
+interface SettingRule {
+    title: string
+    unit: string
+    min: number
+    max: number
+    fallback: number
+}
+
+export const SETTING_RULES: Record<keyof DurationSettings, SettingRule> = {
+    workDuration: { title: "Work Duration", unit: "minutes", min: 1, max: 240, fallback: 25 },
+    shortBreakDuration: { title: "Short Break Duration", unit: "minutes", min: 1, max: 120, fallback: 5 },
+    longBreakDuration: { title: "Long Break Duration", unit: "minutes", min: 1, max: 240, fallback: 15 },
+    longBreakInterval: { title: "Long Break Interval", unit: "sessions", min: 1, max: 12, fallback: 4 }
+}
+
+export const BUILT_IN_PROFILES: TimerProfile[] = [
+    {
+        id: "classic",
+        name: "Classic 25/5",
+        workDuration: 25,
+        shortBreakDuration: 5,
+        longBreakDuration: 15,
+        longBreakInterval: 4
+    },
+    {
+        id: "deep-work",
+        name: "Deep Work 50/10",
+        workDuration: 50,
+        shortBreakDuration: 10,
+        longBreakDuration: 30,
+        longBreakInterval: 3
+    },
+    {
+        id: "52-17",
+        name: "52/17",
+        workDuration: 52,
+        shortBreakDuration: 17,
+        longBreakDuration: 17,
+        longBreakInterval: 4
+    }
+]
+
+/**
+ * Parse one setting, returning an issue instead of a value when it is not a whole number in range
+ */
+export function parseSetting(
+    field: keyof DurationSettings,
+    raw: string | undefined
+): { value?: number; issue?: ConfigIssue } {
+    const rule = SETTING_RULES[field]
+    const text = (raw ?? "").trim()
+
+    if (!/^-?\d+$/.test(text)) {
+        return { issue: { field, message: `${rule.title}: "${text}" is not a whole number` } }
+    }
+
+    const value = parseInt(text, 10)
+    if (value < rule.min || value > rule.max) {
+        return {
+            issue: { field, message: `${rule.title} must be between ${rule.min} and ${rule.max} ${rule.unit}` }
+        }
+    }
+
+    return { value }
+}
+
+/**
+ * Parse all duration settings; invalid ones are reported and left out
+ */
+export function parseDurationSettings(values: Record<keyof DurationSettings, string | undefined>): {
+    settings: Partial<DurationSettings>
+    issues: ConfigIssue[]
+} {
+    const settings: Partial<DurationSettings> = {}
+    const issues: ConfigIssue[] = []
+
+    for (const field of Object.keys(SETTING_RULES) as Array<keyof DurationSettings>) {
+        const { value, issue } = parseSetting(field, values[field])
+        if (issue) {
+            issues.push(issue)
+        } else {
+            settings[field] = value
+        }
+    }
+
+    return { settings, issues }
+}
+
+/**
+ * Build the timer configuration from the extension preferences
+ * Invalid durations fall back to their defaults and are reported as issues
+ */
+export function loadConfigFromPreferences(): { config: TimerConfig; issues: ConfigIssue[] } {
+    const preferences = getPreferenceValues<Preferences>()
+    const { settings, issues } = parseDurationSettings(preferences)
+
+    return {
+        config: {
+            workDuration: settings.workDuration ?? SETTING_RULES.workDuration.fallback,
+            shortBreakDuration: settings.shortBreakDuration ?? SETTING_RULES.shortBreakDuration.fallback,
+            longBreakDuration: settings.longBreakDuration ?? SETTING_RULES.longBreakDuration.fallback,
+            longBreakInterval: settings.longBreakInterval ?? SETTING_RULES.longBreakInterval.fallback,
+            enableNotifications: preferences.enableNotifications ?? true,
+            autoStartBreaks: preferences.autoStartBreaks ?? false,
+            autoStartWork: preferences.autoStartWork ?? false,
+            reflectAfterWork: preferences.reflectAfterWork ?? true,
+            idleThreshold: Number(preferences.idleThreshold ?? "5")
+        },
+        issues
+    }
+}
+
+export function getConfigFromPreferences(): TimerConfig {
+    return loadConfigFromPreferences().config
+}
+
+/**
+ * Durations of a profile, ready for `updateConfig`
+ */
+export function getProfileSettings(profile: TimerProfile): DurationSettings {
+    return {
+        workDuration: profile.workDuration,
+        shortBreakDuration: profile.shortBreakDuration,
+        longBreakDuration: profile.longBreakDuration,
+        longBreakInterval: profile.longBreakInterval
+    }
+}
+
+/**
+ * Short description of a profile's cycle, e.g. "25/5 · long 15 every 4"
+ */
+export function describeSettings(settings: DurationSettings): string {
+    return `${settings.workDuration}/${settings.shortBreakDuration} · long ${settings.longBreakDuration} every ${settings.longBreakInterval}`
+}
+
+/**
+ * Tell the user which preferences were rejected and which defaults are used instead
+ */
+export async function showConfigIssues(issues: ConfigIssue[]): Promise<void> {
+    if (issues.length === 0) return
+
+    await showToast({
+        style: Toast.Style.Failure,
+        title: issues.length === 1 ? "Invalid preference" : `${issues.length} invalid preferences`,
+        message: `${issues.map((issue) => issue.message).join("; ")}. Using defaults instead.`,
+        primaryAction: {
+            title: "Open Preferences",
+            onAction: () => openExtensionPreferences()
+        }
+    })
+}
@@ -0,0 +1,62 @@
+/**
+ * Launch contexts that drive the timer from deeplinks, quicklinks and other commands
+ */
+
+import { createDeeplink } from "@raycast/utils"
+import { LaunchAction, SessionType, TimerLaunchContext, TimerSession } from "../types/timer"
+
+const LAUNCH_ACTIONS = Object.values(LaunchAction) as string[]
+const SESSION_TYPES = Object.values(SessionType) as string[]
+
+function optionalText(value: unknown, key: string): string | undefined {
+    if (value === undefined || value === null) return undefined
+    if (typeof value !== "string") {
+        throw new Error(`"${key}" must be text`)
+    }
+    return value.trim() || undefined
+}
+
+/**
+ * Check a launch context from outside the extension, which deeplinks and quicklinks pass as hand-written JSON
+ * Throws an error that names the offending field
+ */
+export function parseLaunchContext(value: unknown): TimerLaunchContext {
+    if (typeof value !== "object" || value === null) {
+        throw new Error("The launch context must be an object")
+    }
+
+    const { action, type, task, project, duration } = value as Record<string, unknown>
+    if (typeof action !== "string" || !LAUNCH_ACTIONS.includes(action)) {
+        throw new Error(`"action" must be one of ${LAUNCH_ACTIONS.join(", ")}`)
+    }
+    if (type !== undefined && (typeof type !== "string" || !SESSION_TYPES.includes(type))) {
+        throw new Error(`"type" must be one of ${SESSION_TYPES.join(", ")}`)
+    }
+
+    // Quicklinks can only produce text, so durations may come as strings
+    const minutes = duration === undefined || duration === "" ? undefined : Number(duration)
+    if (minutes !== undefined && (!Number.isFinite(minutes) || minutes <= 0)) {
+        throw new Error(`"${duration}" is not a valid number of minutes`)
+    }
+
+    return {
+        action: action as LaunchAction,
+        type: type as SessionType | undefined,
+        task: optionalText(task, "task"),
+        project: optionalText(project, "project"),
+        duration: minutes
+    }
+}
+
+/**
+ * Deeplink to Quick Start that starts a session like the given one, with its task and project
+ */
+export function createStartDeeplink(session: TimerSession): string {
+    const context: TimerLaunchContext = {
+        action: LaunchAction.START,
+        type: session.type,
+        task: session.taskName,
+        project: session.projectName
+    }
+    return createDeeplink({ command: "quick-start", context: { ...context } })
+}
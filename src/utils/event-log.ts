@@ -0,0 +1,79 @@
+/**
+ * Storage format of the timer event log, and rebuilding the session history from it
+ */
+
+import { format } from "date-fns"
+import { LogEntryKind, TimerLogEntry } from "../types/event-log"
+import { TimerSession } from "../types/timer"
+import { getSessionEventLabel } from "./hooks"
+import { getSessionLabel } from "./timer-format"
+
+export const LOG_KEY_PREFIX = "pomodoro-log:"
+
+const DATE_KEYS = ["at", "startTime", "endTime", "start", "end", "loggedAt"]
+
+/**
+ * Day of a log entry, as used in its storage key, e.g. "2024-05-31"
+ */
+export function getLogDay(date: Date): string {
+    return format(date, "yyyy-MM-dd")
+}
+
+/**
+ * LocalStorage key holding the entries of one day
+ */
+export function getLogKey(day: string): string {
+    return `${LOG_KEY_PREFIX}${day}`
+}
+
+/**
+ * Read the stored entries of a day, reviving their dates
+ */
+export function parseLogEntries(text: string): TimerLogEntry[] {
+    return JSON.parse(text, (key, value) =>
+        DATE_KEYS.includes(key) && typeof value === "string" ? new Date(value) : value
+    )
+}
+
+/**
+ * Replay log entries in order and collect the recorded sessions, oldest first
+ * Sessions that never ended, like ones discarded by a reset, are not part of the history
+ */
+export function rebuildHistory(entries: TimerLogEntry[]): TimerSession[] {
+    const sessions = new Map<string, TimerSession>()
+    const ordered = [...entries].sort((a, b) => a.at.getTime() - b.at.getTime())
+
+    for (const entry of ordered) {
+        switch (entry.kind) {
+            case LogEntryKind.SESSION:
+                if (entry.session.endTime) {
+                    sessions.set(entry.session.id, entry.session)
+                }
+                break
+            case LogEntryKind.RECORD:
+                sessions.set(entry.session.id, entry.session)
+                break
+            case LogEntryKind.DELETE:
+                sessions.delete(entry.sessionId)
+                break
+        }
+    }
+
+    return Array.from(sessions.values()).sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+}
+
+/**
+ * Short description of a log entry, e.g. "Work · Complete"
+ */
+export function getLogEntryLabel(entry: TimerLogEntry): string {
+    switch (entry.kind) {
+        case LogEntryKind.SESSION:
+            return `${getSessionLabel(entry.session)} · ${getSessionEventLabel(entry.event)}`
+        case LogEntryKind.RECORD:
+            return `${getSessionLabel(entry.session)} · Recorded`
+        case LogEntryKind.DELETE:
+            return "Session Deleted"
+        case LogEntryKind.CONFIG:
+            return "Settings Changed"
+    }
+}
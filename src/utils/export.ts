@@ -0,0 +1,183 @@
+/**
+ * Serialize session history to CSV, JSON and iCalendar
+ */
+
+import { endOfDay, format, startOfDay } from "date-fns"
+import { SessionType, TimerSession } from "../types/timer"
+import { getElapsedSeconds } from "./timer-engine"
+import { getSessionLabel } from "./timer-format"
+
+export enum ExportFormat {
+    CSV = "csv",
+    JSON = "json",
+    ICS = "ics"
+}
+
+export interface ExportFilter {
+    from?: Date
+    to?: Date
+    projectName?: string
+    type?: SessionType
+}
+
+/**
+ * Sessions matching the export filter, oldest first
+ * Date bounds are inclusive whole days
+ */
+export function filterSessions(history: TimerSession[], filter: ExportFilter): TimerSession[] {
+    const from = filter.from ? startOfDay(filter.from) : undefined
+    const to = filter.to ? endOfDay(filter.to) : undefined
+
+    return history
+        .filter(
+            (session) =>
+                (!from || session.startTime >= from) &&
+                (!to || session.startTime <= to) &&
+                (!filter.projectName || session.projectName === filter.projectName) &&
+                (!filter.type || session.type === filter.type)
+        )
+        .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+}
+
+/**
+ * Quote a CSV field when it contains separators, quotes or line breaks
+ */
+function escapeCSV(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export function sessionsToCSV(sessions: TimerSession[]): string {
+    const header = [
+        "id",
+        "type",
+        "start",
+        "end",
+        "planned_minutes",
+        "focused_minutes",
+        "completed",
+        "task",
+        "project",
+        "segment",
+        "interruptions",
+        "accomplished",
+        "focus_rating",
+        "notes"
+    ]
+    const rows = sessions.map((session) => [
+        session.id,
+        session.type,
+        session.startTime.toISOString(),
+        session.endTime?.toISOString() ?? "",
+        (session.duration / 60).toFixed(1),
+        (getElapsedSeconds(session) / 60).toFixed(1),
+        String(session.completed),
+        session.taskName ?? "",
+        session.projectName ?? "",
+        session.segment?.name ?? "",
+        String(session.interruptions.length),
+        session.reflection?.accomplished ?? "",
+        session.reflection?.focusRating?.toString() ?? "",
+        session.reflection?.notes ?? ""
+    ])
+
+    return [header, ...rows].map((row) => row.map(escapeCSV).join(",")).join("\r\n") + "\r\n"
+}
+
+export function sessionsToJSON(sessions: TimerSession[]): string {
+    return JSON.stringify(
+        sessions.map((session) => ({
+            ...session,
+            focusedSeconds: getElapsedSeconds(session)
+        })),
+        null,
+        2
+    )
+}
+
+/**
+ * Escape text values as required by RFC 5545
+ */
+function escapeICS(value: string): string {
+    return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n")
+}
+
+/**
+ * Fold content lines longer than 75 octets
+ */
+function foldICSLine(line: string): string {
+    const chunks: string[] = []
+    let current = ""
+    for (const char of line) {
+        const limit = chunks.length === 0 ? 75 : 74 // continuation lines start with a space
+        if (Buffer.byteLength(current + char) > limit) {
+            chunks.push(current)
+            current = ""
+        }
+        current += char
+    }
+    chunks.push(current)
+    return chunks.join("\r\n ")
+}
+
+function formatICSDate(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+}
+
+/**
+ * Calendar with one event per completed session
+ */
+export function sessionsToICS(sessions: TimerSession[], now: Date = new Date()): string {
+    const events = sessions
+        .filter((session) => session.completed && session.endTime)
+        .flatMap((session) => {
+            const summary = session.taskName
+                ? `${getSessionLabel(session)}: ${session.taskName}`
+                : getSessionLabel(session)
+            const description = [
+                session.projectName ? `Project: ${session.projectName}` : undefined,
+                `Focused: ${Math.round(getElapsedSeconds(session) / 60)} min`,
+                session.reflection?.accomplished ? `Accomplished: ${session.reflection.accomplished}` : undefined,
+                session.reflection?.notes ? `Notes: ${session.reflection.notes}` : undefined
+            ].filter((line): line is string => !!line)
+
+            return [
+                "BEGIN:VEVENT",
+                `UID:${session.id}@raycast-pomodoro`,
+                `DTSTAMP:${formatICSDate(now)}`,
+                `DTSTART:${formatICSDate(session.startTime)}`,
+                `DTEND:${formatICSDate(session.endTime as Date)}`,
+                `SUMMARY:${escapeICS(summary)}`,
+                `DESCRIPTION:${escapeICS(description.join("\n"))}`,
+                ...(session.projectName ? [`CATEGORIES:${escapeICS(session.projectName)}`] : []),
+                "END:VEVENT"
+            ]
+        })
+
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//raycast-pomodoro//Pomodoro Timer//EN",
+        "CALSCALE:GREGORIAN",
+        ...events,
+        "END:VCALENDAR"
+    ]
+    return lines.map(foldICSLine).join("\r\n") + "\r\n"
+}
+
+/**
+ * Serialize sessions in the requested format
+ */
+export function exportSessions(sessions: TimerSession[], exportFormat: ExportFormat): string {
+    switch (exportFormat) {
+        case ExportFormat.CSV:
+            return sessionsToCSV(sessions)
+        case ExportFormat.JSON:
+            return sessionsToJSON(sessions)
+        case ExportFormat.ICS:
+            return sessionsToICS(sessions)
+    }
+}
+
+export function getExportFileName(exportFormat: ExportFormat, date: Date = new Date()): string {
+    return `pomodoro-history-${format(date, "yyyy-MM-dd-HHmm")}.${exportFormat}`
+}
@@ -0,0 +1,52 @@
+/**
+ * Matching running processes against the focus mode blocklist
+ */
+
+import { BlockedProcess } from "../types/focus"
+import { SessionType, TimerSession, TimerState } from "../types/timer"
+
+/**
+ * Canonical form of a blocked app, e.g. "Slack" becomes "slack.exe"
+ */
+export function normalizeAppName(name: string): string {
+    const trimmed = name.trim().toLowerCase()
+    return !trimmed || trimmed.includes(".") ? trimmed : `${trimmed}.exe`
+}
+
+/**
+ * Running processes on the blocklist, one entry per app in blocklist order
+ */
+export function findBlockedProcesses(
+    processes: Array<{ name: string; pid: string }>,
+    blockedApps: string[]
+): BlockedProcess[] {
+    return blockedApps
+        .map((app) => {
+            const matches = processes.filter((process) => process.name.toLowerCase() === app)
+            return { name: matches[0]?.name ?? app, pids: matches.map((process) => process.pid) }
+        })
+        .filter((blocked) => blocked.pids.length > 0)
+}
+
+/**
+ * Distinct names of running processes, sorted case-insensitively
+ */
+export function getRunningAppNames(processes: Array<{ name: string }>): string[] {
+    const names = new Map(processes.map((process) => [process.name.toLowerCase(), process.name]))
+    return Array.from(names.values()).sort((a, b) => a.localeCompare(b, undefined, { sensitivity: "base" }))
+}
+
+/**
+ * Whether blocked apps are kept closed right now
+ * Only a running work session blocks; breaks and pauses lift the block
+ */
+export function isBlockActive(enabled: boolean, session: TimerSession | null, state: TimerState): boolean {
+    return enabled && session?.type === SessionType.WORK && state === TimerState.RUNNING
+}
+
+/**
+ * Comma-separated names of blocked processes, e.g. "slack.exe, discord.exe"
+ */
+export function formatBlockedProcesses(processes: BlockedProcess[]): string {
+    return processes.map((process) => process.name).join(", ")
+}
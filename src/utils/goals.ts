@@ -0,0 +1,80 @@
+/**
+ * Progress towards daily and weekly focus goals
+ * Like the statistics, progress is derived from the session history every time
+ */
+
+import { Day, startOfDay, startOfWeek } from "date-fns"
+import { FocusGoal, GoalMetric, GoalPeriod, GoalProgress } from "../types/goal"
+import { SessionType, TimerSession } from "../types/timer"
+import { getLocaleWeekStart, getSessionDay, isCompletedWork, splitSessionByDay } from "./statistics"
+
+/**
+ * First day of the period a goal is measured over
+ */
+export function getPeriodStart(period: GoalPeriod, now: Date, weekStartsOn: Day): Date {
+    return period === GoalPeriod.DAILY ? startOfDay(now) : startOfWeek(now, { weekStartsOn })
+}
+
+/**
+ * Progress of one goal over its current period
+ * Pass the running session along with the history so minutes of focus count while the timer runs
+ */
+export function getGoalProgress(
+    goal: FocusGoal,
+    sessions: TimerSession[],
+    now: Date = new Date(),
+    weekStartsOn: Day = getLocaleWeekStart()
+): GoalProgress {
+    const periodStart = getPeriodStart(goal.period, now, weekStartsOn)
+    const relevant = sessions.filter(
+        (session) => session.type === SessionType.WORK && (!goal.projectId || session.projectId === goal.projectId)
+    )
+
+    let value = 0
+    if (goal.metric === GoalMetric.SESSIONS) {
+        value = relevant.filter((session) => isCompletedWork(session) && getSessionDay(session) >= periodStart).length
+    } else {
+        let seconds = 0
+        for (const session of relevant) {
+            splitSessionByDay(session, now).forEach((daySeconds, time) => {
+                if (time >= periodStart.getTime()) {
+                    seconds += daySeconds
+                }
+            })
+        }
+        value = Math.floor(seconds / 60)
+    }
+
+    return {
+        goal,
+        periodStart,
+        value,
+        fraction: Math.min(1, value / goal.target),
+        reached: value >= goal.target
+    }
+}
+
+/**
+ * Key identifying a goal within one period, used to announce each goal once per period
+ */
+export function getAnnouncementKey(progress: GoalProgress): string {
+    return `${progress.goal.id}@${progress.periodStart.getTime()}`
+}
+
+/**
+ * Goal value with its unit, e.g. "3/8 pomodoros" or "90/240 min"
+ */
+export function formatGoalProgress(progress: GoalProgress): string {
+    const { value, goal } = progress
+    return goal.metric === GoalMetric.SESSIONS
+        ? `${value}/${goal.target} ${goal.target === 1 ? "pomodoro" : "pomodoros"}`
+        : `${value}/${goal.target} min`
+}
+
+/**
+ * Name of a goal, e.g. "Daily" or "Weekly · Website"
+ */
+export function getGoalTitle(goal: FocusGoal, projectName?: string): string {
+    const period = goal.period === GoalPeriod.DAILY ? "Daily" : "Weekly"
+    return projectName ? `${period} · ${projectName}` : period
+}
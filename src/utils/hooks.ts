@@ -0,0 +1,62 @@
+/**
+ * Matching and placeholder values for lifecycle hooks
+ */
+
+import { LifecycleHook } from "../types/hook"
+import { SessionEvent, TimerSession } from "../types/timer"
+import { getExpectedEndTime, isSessionFinished } from "./timer-engine"
+import { getSessionLabel } from "./timer-format"
+
+export const DEFAULT_HOOK_TIMEOUT = 10 // in seconds
+export const MAX_HOOK_TIMEOUT = 300 // in seconds
+
+export const HOOK_PLACEHOLDERS: Array<{ placeholder: string; description: string }> = [
+    { placeholder: "{event}", description: "start, pause, resume, complete, skip or stop" },
+    { placeholder: "{type}", description: "work, short_break or long_break" },
+    { placeholder: "{label}", description: "Session name, e.g. Work or a sequence segment" },
+    { placeholder: "{task}", description: "Task name, empty when none" },
+    { placeholder: "{project}", description: "Project name, empty when none" },
+    { placeholder: "{duration}", description: "Planned length in minutes" },
+    { placeholder: "{endTime}", description: "When the session ends or ended, as ISO 8601" }
+]
+
+const SESSION_EVENT_LABELS: Record<SessionEvent, string> = {
+    [SessionEvent.START]: "Start",
+    [SessionEvent.PAUSE]: "Pause",
+    [SessionEvent.RESUME]: "Resume",
+    [SessionEvent.COMPLETE]: "Complete",
+    [SessionEvent.SKIP]: "Skip",
+    [SessionEvent.STOP]: "Stop"
+}
+
+/**
+ * Human-readable name of a session event
+ */
+export function getSessionEventLabel(event: SessionEvent): string {
+    return SESSION_EVENT_LABELS[event]
+}
+
+/**
+ * Whether a hook should run for an event on a session
+ * A start or resume of a session that is already over comes from catching up after the fact, and is skipped
+ */
+export function matchesHook(hook: LifecycleHook, event: SessionEvent, session: TimerSession): boolean {
+    if (!hook.enabled || hook.event !== event) return false
+    if (hook.sessionTypes.length > 0 && !hook.sessionTypes.includes(session.type)) return false
+    return !((event === SessionEvent.START || event === SessionEvent.RESUME) && isSessionFinished(session))
+}
+
+/**
+ * Placeholder values for a session event, keyed by placeholder
+ */
+export function getHookReplacements(event: SessionEvent, session: TimerSession): Record<string, string> {
+    return {
+        "{event}": event,
+        "{type}": session.type,
+        "{label}": getSessionLabel(session),
+        "{task}": session.taskName ?? "",
+        "{project}": session.projectName ?? "",
+        "{duration}": Math.round(session.duration / 60).toString(),
+        "{endTime}": (session.endTime ?? getExpectedEndTime(session)).toISOString()
+    }
+}
@@ -0,0 +1,74 @@
+/**
+ * JSON POST requests for outgoing integrations, with failures sorted into ones worth retrying and ones that are not
+ */
+
+export const MAX_ATTEMPTS = 8
+
+const BASE_DELAY = 30 * 1000 // in milliseconds, doubled after every failed attempt
+const MAX_DELAY = 60 * 60 * 1000 // in milliseconds
+const REQUEST_TIMEOUT = 15 * 1000 // in milliseconds
+
+/**
+ * A request was not accepted
+ * Retryable errors, like a network failure or a busy server, are tried again later
+ */
+export class RequestError extends Error {
+    constructor(
+        message: string,
+        readonly retryable: boolean,
+        readonly status?: number // HTTP status, unset when the server was not reached
+    ) {
+        super(message)
+        this.name = "RequestError"
+    }
+}
+
+/**
+ * How long to wait after a failed attempt, growing with every attempt up to an hour
+ */
+export function getRetryDelay(attempts: number): number {
+    return Math.min(BASE_DELAY * 2 ** Math.max(0, attempts - 1), MAX_DELAY)
+}
+
+/**
+ * Whether an HTTP status is worth trying again: server errors, timeouts and rate limits
+ */
+function isRetryableStatus(status: number): boolean {
+    return status >= 500 || status === 408 || status === 429
+}
+
+/**
+ * POST a JSON body, rejecting with a `RequestError` unless the server answers with a 2xx status
+ */
+export async function postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<Response> {
+    let target: URL
+    try {
+        target = new URL(url)
+    } catch {
+        throw new RequestError(`"${url}" is not a valid URL`, false)
+    }
+
+    let response: Response
+    try {
+        response = await fetch(target, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...headers },
+            body,
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT)
+        })
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error)
+        throw new RequestError(`Could not reach ${target.host}: ${reason}`, true)
+    }
+
+    if (!response.ok) {
+        const text = (await response.text().catch(() => "")).trim().slice(0, 200)
+        throw new RequestError(
+            `${target.host} answered ${response.status}${text ? `: ${text}` : ""}`,
+            isRetryableStatus(response.status),
+            response.status
+        )
+    }
+
+    return response
+}
@@ -0,0 +1,228 @@
+/**
+ * Convert other Pomodoro apps' CSV and JSON exports into sessions
+ */
+
+import { randomUUID } from "crypto"
+import { SessionType, TimerSession } from "../types/timer"
+
+export type ImportRecord = Record<string, string>
+
+export interface ColumnMapping {
+    start: string
+    end?: string
+    duration?: string // minutes, seconds when the column name says so, or h:mm:ss / mm:ss
+    task?: string
+    project?: string
+    type?: string
+}
+
+type DurationUnit = "minutes" | "seconds"
+
+const DUPLICATE_TOLERANCE_MS = 60 * 1000
+const SECONDS_COLUMN = /(sec(ond)?s?|[ _-]s)$/i
+
+const COLUMN_GUESSES: Record<keyof ColumnMapping, RegExp> = {
+    start: /^(start|started|start[ _-]?(time|date|at)|begin|from)$/i,
+    end: /^(end|ended|end[ _-]?(time|date|at)|stop|finish(ed)?|to)$/i,
+    duration: /^(duration|length|minutes|mins?|(duration|length)[ _-]?(min(utes)?|sec(onds)?)?)$/i,
+    task: /^(task|task[ _-]?name|title|description|name|label)$/i,
+    project: /^(project|project[ _-]?name|category|client|tag)$/i,
+    type: /^(type|session[ _-]?type|kind|mode)$/i
+}
+
+/**
+ * Pick the delimiter used in the header line; spreadsheet exports in many locales use semicolons
+ */
+function detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0] ?? ""
+    return (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ";" : ","
+}
+
+/**
+ * Parse CSV text, honouring quoted fields with embedded separators, quotes and line breaks
+ */
+export function parseCSV(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+    const rows: string[][] = []
+    let row: string[] = []
+    let field = ""
+    let inQuotes = false
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i]
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"'
+                i++
+            } else if (char === '"') {
+                inQuotes = false
+            } else {
+                field += char
+            }
+        } else if (char === '"') {
+            inQuotes = true
+        } else if (char === delimiter) {
+            row.push(field)
+            field = ""
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") i++
+            row.push(field)
+            rows.push(row)
+            row = []
+            field = ""
+        } else {
+            field += char
+        }
+    }
+
+    if (field || row.length > 0) {
+        row.push(field)
+        rows.push(row)
+    }
+
+    return rows.filter((cells) => cells.some((cell) => cell.trim()))
+}
+
+/**
+ * Read an export file into flat records keyed by column name
+ * JSON exports may be an array of objects or an object wrapping one
+ */
+export function readImportRecords(content: string, fileName: string): ImportRecord[] {
+    if (fileName.toLowerCase().endsWith(".json")) {
+        const parsed: unknown = JSON.parse(content)
+        const items = Array.isArray(parsed)
+            ? parsed
+            : Object.values(parsed as Record<string, unknown>).find((value) => Array.isArray(value))
+
+        if (!Array.isArray(items)) {
+            throw new Error("No list of sessions found in the JSON file")
+        }
+
+        return items.map((item) =>
+            Object.fromEntries(
+                Object.entries(item as Record<string, unknown>).map(([key, value]) => [
+                    key,
+                    value == null ? "" : String(value)
+                ])
+            )
+        )
+    }
+
+    const [header, ...rows] = parseCSV(content.replace(/^\uFEFF/, ""))
+    if (!header) {
+        throw new Error("The CSV file is empty")
+    }
+
+    const columns = header.map((column) => column.trim())
+    return rows.map((cells) => Object.fromEntries(columns.map((column, index) => [column, cells[index]?.trim() ?? ""])))
+}
+
+/**
+ * Column names present in the records, in first-seen order
+ */
+export function getColumns(records: ImportRecord[]): string[] {
+    return Array.from(new Set(records.flatMap((record) => Object.keys(record))))
+}
+
+/**
+ * Guess which columns hold each session field from their names
+ */
+export function guessColumnMapping(columns: string[]): Partial<ColumnMapping> {
+    const mapping: Partial<ColumnMapping> = {}
+    for (const [field, pattern] of Object.entries(COLUMN_GUESSES) as Array<[keyof ColumnMapping, RegExp]>) {
+        const column = columns.find((candidate) => pattern.test(candidate.trim()))
+        if (column) {
+            mapping[field] = column
+        }
+    }
+    return mapping
+}
+
+/**
+ * Unit of the bare numbers in a duration column, e.g. seconds for "duration_seconds" or "length-sec"
+ */
+function getDurationUnit(column: string): DurationUnit {
+    return SECONDS_COLUMN.test(column.trim()) ? "seconds" : "minutes"
+}
+
+/**
+ * Parse a duration as a number in the given unit ("25", "25.5") or a clock value ("0:25:00"), returning seconds
+ */
+export function parseDuration(value: string, unit: DurationUnit = "minutes"): number | undefined {
+    const trimmed = value.trim()
+    if (!trimmed) return undefined
+
+    if (trimmed.includes(":")) {
+        const parts = trimmed.split(":").map(Number)
+        if (parts.some((part) => !Number.isFinite(part))) return undefined
+        return parts.reduce((total, part) => total * 60 + part, 0)
+    }
+
+    const amount = Number(trimmed)
+    if (!Number.isFinite(amount)) return undefined
+    return Math.round(unit === "seconds" ? amount : amount * 60)
+}
+
+function parseDate(value: string | undefined): Date | undefined {
+    if (!value?.trim()) return undefined
+    const trimmed = value.trim()
+    // Unix timestamps in seconds or milliseconds
+    const date = /^\d+$/.test(trimmed)
+        ? new Date(trimmed.length <= 10 ? Number(trimmed) * 1000 : Number(trimmed))
+        : new Date(trimmed)
+    return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+function parseSessionType(value: string | undefined): SessionType {
+    const normalized = value?.toLowerCase() ?? ""
+    if (normalized.includes("long")) return SessionType.LONG_BREAK
+    if (normalized.includes("break") || normalized.includes("rest")) return SessionType.SHORT_BREAK
+    return SessionType.WORK
+}
+
+/**
+ * Convert one record into a completed session
+ * Throws when the start, end or duration cannot be determined
+ */
+export function recordToSession(record: ImportRecord, mapping: ColumnMapping): TimerSession {
+    const startTime = parseDate(record[mapping.start])
+    if (!startTime) {
+        throw new Error(`Invalid start time "${record[mapping.start] ?? ""}"`)
+    }
+
+    const rawDuration = mapping.duration ? record[mapping.duration] : undefined
+    const parsedDuration =
+        mapping.duration && rawDuration ? parseDuration(rawDuration, getDurationUnit(mapping.duration)) : undefined
+    const parsedEnd = mapping.end ? parseDate(record[mapping.end]) : undefined
+
+    const duration =
+        parsedDuration ?? (parsedEnd ? Math.round((parsedEnd.getTime() - startTime.getTime()) / 1000) : undefined)
+    if (duration === undefined || duration <= 0) {
+        throw new Error(`Missing or invalid duration for session starting ${startTime.toISOString()}`)
+    }
+
+    return {
+        id: randomUUID(),
+        type: parseSessionType(mapping.type ? record[mapping.type] : undefined),
+        duration,
+        startTime,
+        endTime: parsedEnd ?? new Date(startTime.getTime() + duration * 1000),
+        completed: true,
+        pauses: [],
+        interruptions: [],
+        taskName: (mapping.task && record[mapping.task]) || undefined,
+        projectName: (mapping.project && record[mapping.project]) || undefined
+    }
+}
+
+/**
+ * Whether a session with an overlapping start already exists
+ * A start that falls inside an existing session, or within a minute of its start, is a duplicate
+ */
+export function isDuplicateSession(session: TimerSession, existing: TimerSession[]): boolean {
+    const start = session.startTime.getTime()
+    return existing.some((other) => {
+        const otherStart = other.startTime.getTime()
+        const otherEnd = other.endTime?.getTime() ?? otherStart + other.duration * 1000
+        return Math.abs(start - otherStart) < DUPLICATE_TOLERANCE_MS || (start >= otherStart && start < otherEnd)
+    })
+}
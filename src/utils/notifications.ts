@@ -0,0 +1,64 @@
+/**
+ * Defaults and text templates for session notifications
+ */
+
+import { NotificationState } from "../types/notification"
+import { SessionType, TimerSession } from "../types/timer"
+import { getSystemSound } from "./sound"
+import { getSessionLabel } from "./timer-format"
+
+export const MAX_REPEAT = 10
+
+export const NOTIFICATION_PLACEHOLDERS: Array<{ placeholder: string; description: string }> = [
+    { placeholder: "{label}", description: "Session name, e.g. Work or a sequence segment" },
+    { placeholder: "{task}", description: "Task name, empty when none" },
+    { placeholder: "{project}", description: "Project name, empty when none" },
+    { placeholder: "{duration}", description: "Planned length in minutes" }
+]
+
+/**
+ * Settings used until the user changes them
+ */
+export function getDefaultNotifications(): NotificationState {
+    return {
+        sessions: {
+            [SessionType.WORK]: {
+                soundFile: getSystemSound("Alarm01.wav"),
+                volume: 80,
+                repeat: 1,
+                template: "🍅 {label} complete — time for a break"
+            },
+            [SessionType.SHORT_BREAK]: {
+                soundFile: getSystemSound("chimes.wav"),
+                volume: 80,
+                repeat: 1,
+                template: "☕ {label} is over — back to work"
+            },
+            [SessionType.LONG_BREAK]: {
+                soundFile: getSystemSound("chimes.wav"),
+                volume: 80,
+                repeat: 2,
+                template: "🌴 {label} is over — back to work"
+            }
+        },
+        tickInLastMinute: false,
+        tickFile: getSystemSound("Windows Navigation Start.wav"),
+        tickVolume: 30
+    }
+}
+
+/**
+ * Fill the placeholders of a notification template for a session
+ */
+export function renderTemplate(template: string, session: TimerSession): string {
+    const values: Record<string, string> = {
+        "{label}": getSessionLabel(session),
+        "{task}": session.taskName ?? "",
+        "{project}": session.projectName ?? "",
+        "{duration}": Math.round(session.duration / 60).toString()
+    }
+
+    return Object.entries(values)
+        .reduce((text, [placeholder, value]) => text.split(placeholder).join(value), template)
+        .trim()
+}
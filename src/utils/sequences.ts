@@ -0,0 +1,115 @@
+/**
+ * User-defined session sequences
+ * A sequence is an ordered cycle of named segments; each segment maps onto a SessionType
+ * (WORK when it counts as work, SHORT_BREAK otherwise) so history, filters and stats keep working
+ */
+
+import { SegmentRef, SequenceSegment, SessionSequence, SessionType, TimerSession } from "../types/timer"
+
+export interface SegmentIssue {
+    line: number
+    message: string
+}
+
+const MAX_SEGMENT_MINUTES = 480
+const WORK_KEYWORDS = ["work", "yes", "true", "focus"]
+const BREAK_KEYWORDS = ["break", "no", "false", "rest"]
+
+export const BUILT_IN_SEQUENCES: SessionSequence[] = [
+    {
+        id: "ultradian",
+        name: "Ultradian 90/20",
+        segments: [
+            { name: "Deep Focus", duration: 90, countsAsWork: true },
+            { name: "Recovery", duration: 20, countsAsWork: false }
+        ]
+    },
+    {
+        id: "work-review",
+        name: "Work & Review",
+        segments: [
+            { name: "Work", duration: 25, countsAsWork: true },
+            { name: "Short Break", duration: 5, countsAsWork: false },
+            { name: "Work", duration: 25, countsAsWork: true },
+            { name: "Review", duration: 10, countsAsWork: true },
+            { name: "Long Break", duration: 20, countsAsWork: false }
+        ]
+    }
+]
+
+/**
+ * Find a built-in or custom sequence by id
+ */
+export function findSequence(id: string | undefined, customSequences: SessionSequence[]): SessionSequence | undefined {
+    return id ? [...BUILT_IN_SEQUENCES, ...customSequences].find((sequence) => sequence.id === id) : undefined
+}
+
+/**
+ * Session type a segment is recorded as
+ */
+export function getSegmentType(segment: SequenceSegment): SessionType {
+    return segment.countsAsWork ? SessionType.WORK : SessionType.SHORT_BREAK
+}
+
+export function createSegmentRef(sequence: SessionSequence, index: number): SegmentRef {
+    return { sequenceId: sequence.id, index, name: sequence.segments[index].name }
+}
+
+/**
+ * Segment that follows the reference session in the sequence
+ * Starts from the top when the reference does not belong to the sequence
+ */
+export function getNextSegmentIndex(sequence: SessionSequence, reference: TimerSession | undefined): number {
+    if (!reference?.segment || reference.segment.sequenceId !== sequence.id) {
+        return 0
+    }
+    return (reference.segment.index + 1) % sequence.segments.length
+}
+
+/**
+ * Parse segments written one per line as "name, minutes, work|break"
+ */
+export function parseSegments(text: string): { segments: SequenceSegment[]; issues: SegmentIssue[] } {
+    const segments: SequenceSegment[] = []
+    const issues: SegmentIssue[] = []
+
+    text.split(/\r?\n/).forEach((raw, index) => {
+        const line = index + 1
+        if (!raw.trim()) return
+
+        const [name = "", minutes = "", kind = "work"] = raw.split(",").map((part) => part.trim())
+        const duration = Number(minutes)
+
+        if (!name) {
+            issues.push({ line, message: `Line ${line}: segment name is missing` })
+        } else if (!Number.isInteger(duration) || duration < 1 || duration > MAX_SEGMENT_MINUTES) {
+            issues.push({ line, message: `Line ${line}: duration must be 1–${MAX_SEGMENT_MINUTES} minutes` })
+        } else if (![...WORK_KEYWORDS, ...BREAK_KEYWORDS].includes(kind.toLowerCase())) {
+            issues.push({ line, message: `Line ${line}: use "work" or "break", not "${kind}"` })
+        } else {
+            segments.push({ name, duration, countsAsWork: WORK_KEYWORDS.includes(kind.toLowerCase()) })
+        }
+    })
+
+    if (issues.length === 0 && segments.length === 0) {
+        issues.push({ line: 1, message: "Add at least one segment" })
+    }
+
+    return { segments, issues }
+}
+
+/**
+ * Write segments back in the format read by `parseSegments`
+ */
+export function formatSegments(segments: SequenceSegment[]): string {
+    return segments
+        .map((segment) => `${segment.name}, ${segment.duration}, ${segment.countsAsWork ? "work" : "break"}`)
+        .join("\n")
+}
+
+/**
+ * Short description of a sequence, e.g. "Deep Focus 90 → Recovery 20"
+ */
+export function describeSequence(sequence: SessionSequence): string {
+    return sequence.segments.map((segment) => `${segment.name} ${segment.duration}`).join(" → ")
+}
@@ -0,0 +1,96 @@
+/**
+ * Sound playback through PowerShell, with a silent stand-in when no player is available
+ */
+
+import { execFile } from "child_process"
+import { PlaybackOptions, SoundPlayback, SoundPlayer } from "../types/notification"
+import { getWindowsPaths, isToolAvailable } from "./windows-helpers"
+
+const PLAYER_TIMEOUT = 5 * 60 * 1000
+
+/**
+ * Path of a sound that ships with Windows, e.g. "Alarm01.wav"
+ */
+export function getSystemSound(name: string): string {
+    return `${getWindowsPaths().systemRoot}\\Media\\${name}`
+}
+
+/**
+ * Quote a value as a PowerShell string literal
+ */
+function quotePowerShell(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`
+}
+
+/**
+ * PowerShell script that plays a file through the WPF media player
+ * Each repeat waits for the sound to finish, or for the interval when that is longer
+ */
+function buildPlaybackScript(file: string, { volume, repeat, interval = 0 }: PlaybackOptions): string {
+    return [
+        "Add-Type -AssemblyName PresentationCore",
+        "$player = New-Object System.Windows.Media.MediaPlayer",
+        `$player.Open([Uri]${quotePowerShell(file)})`,
+        `$player.Volume = ${Math.min(Math.max(volume, 0), 100) / 100}`,
+        "for ($i = 0; $i -lt 40 -and -not $player.NaturalDuration.HasTimeSpan; $i++) { Start-Sleep -Milliseconds 50 }",
+        "$length = if ($player.NaturalDuration.HasTimeSpan) { $player.NaturalDuration.TimeSpan.TotalMilliseconds } else { 1000 }",
+        `for ($i = 0; $i -lt ${repeat}; $i++) {`,
+        "    $player.Position = [TimeSpan]::Zero",
+        "    $player.Play()",
+        `    Start-Sleep -Milliseconds ([Math]::Max($length, ${interval}))`,
+        "}",
+        "$player.Close()"
+    ].join("\n")
+}
+
+/**
+ * Player that runs one PowerShell process per playback
+ */
+export function createPowerShellPlayer(): SoundPlayer {
+    return {
+        name: "PowerShell",
+        play: (file, options) => {
+            let stopped = false
+            let child: ReturnType<typeof execFile> | undefined
+
+            const done = new Promise<void>((resolve, reject) => {
+                child = execFile(
+                    "powershell.exe",
+                    ["-NoProfile", "-NonInteractive", "-Command", buildPlaybackScript(file, options)],
+                    { timeout: PLAYER_TIMEOUT, windowsHide: true },
+                    (error) => (error && !stopped ? reject(error) : resolve())
+                )
+            })
+
+            return {
+                done,
+                stop: () => {
+                    stopped = true
+                    child?.kill()
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Player that plays nothing, used when sounds are off or no player is installed
+ */
+export const silentPlayer: SoundPlayer = {
+    name: "Silent",
+    play: () => ({ done: Promise.resolve(), stop: () => undefined })
+}
+
+let availablePlayer: Promise<SoundPlayer> | undefined
+
+/**
+ * The player to use, falling back to the silent one when sounds are disabled or PowerShell is missing
+ */
+export async function getSoundPlayer(enabled: boolean): Promise<SoundPlayer> {
+    if (!enabled) return silentPlayer
+
+    availablePlayer ??= isToolAvailable("powershell").then((available) =>
+        available ? createPowerShellPlayer() : silentPlayer
+    )
+    return availablePlayer
+}
@@ -0,0 +1,398 @@
+/**
+ * Statistics derived from the session history
+ * Pure functions: everything is recomputed from `history`, nothing is counted incrementally
+ */
+
+import {
+    addDays,
+    addHours,
+    addWeeks,
+    Day,
+    isSameMonth,
+    isSameWeek,
+    startOfDay,
+    startOfHour,
+    startOfWeek,
+    subDays,
+    subWeeks
+} from "date-fns"
+import { InterruptionType, SessionType, TimerSession, TimerStats } from "../types/timer"
+import { getActiveIntervals } from "./timer-engine"
+
+export interface DayStats {
+    day: Date // local midnight
+    workTime: number // in seconds
+    breakTime: number // in seconds
+    completedWorkSessions: number
+    internalInterruptions: number
+    externalInterruptions: number
+}
+
+export interface ProjectInterruptions {
+    projectName?: string // unset for sessions without a project
+    workSessions: number
+    internalInterruptions: number
+    externalInterruptions: number
+}
+
+export interface ProjectFocus {
+    projectName?: string // unset for sessions without a project
+    workTime: number // in seconds
+    completedWorkSessions: number
+}
+
+export interface CalendarDay {
+    day: Date // local midnight
+    completedWorkSessions: number
+    future: boolean // after today, shown empty
+}
+
+export interface PeriodTotals {
+    workTime: number // in seconds
+    completedWorkSessions: number
+    interruptions: number
+    activeDays: number // days with at least one completed work session
+}
+
+export interface WeekComparison {
+    current: PeriodTotals // this week up to and including today
+    previous: PeriodTotals // the same days of last week
+}
+
+export interface StatsOptions {
+    now?: Date
+    weekStartsOn?: Day
+}
+
+interface LocaleWithWeekInfo extends Intl.Locale {
+    weekInfo?: { firstDay: number }
+    getWeekInfo?: () => { firstDay: number }
+}
+
+/**
+ * First day of the week for a locale, in date-fns numbering (0 = Sunday)
+ * Falls back to Monday when the runtime does not expose week information
+ */
+export function getLocaleWeekStart(locale: string = Intl.DateTimeFormat().resolvedOptions().locale): Day {
+    try {
+        const info = new Intl.Locale(locale) as LocaleWithWeekInfo
+        const firstDay = info.getWeekInfo?.().firstDay ?? info.weekInfo?.firstDay
+        // Intl numbers days 1 (Monday) to 7 (Sunday)
+        return firstDay ? ((firstDay % 7) as Day) : 1
+    } catch {
+        return 1
+    }
+}
+
+/**
+ * Split the active time of a session into the local days it covers, in seconds
+ * A session running across midnight contributes to both days
+ */
+export function splitSessionByDay(session: TimerSession, now: Date = new Date()): Map<number, number> {
+    return splitIntervalsByDay(getActiveIntervals(session, now))
+}
+
+/**
+ * Idle time of a session that was counted as a break, split into the local days it covers, in seconds
+ */
+export function splitIdleBreaksByDay(session: TimerSession): Map<number, number> {
+    return splitIntervalsByDay(
+        session.pauses.flatMap((pause) =>
+            pause.countsAsBreak && pause.end ? [{ start: pause.start, end: pause.end }] : []
+        )
+    )
+}
+
+/**
+ * Split time intervals into the local days they cover, in seconds
+ */
+function splitIntervalsByDay(intervals: Array<{ start: Date; end: Date }>): Map<number, number> {
+    return splitIntervals(intervals, startOfDay, (day) => addDays(day, 1))
+}
+
+/**
+ * Split time intervals into consecutive buckets such as days or hours, in seconds per bucket start
+ */
+function splitIntervals(
+    intervals: Array<{ start: Date; end: Date }>,
+    getBucket: (date: Date) => Date,
+    getNextBucket: (bucket: Date) => Date
+): Map<number, number> {
+    const perBucket = new Map<number, number>()
+
+    for (const interval of intervals) {
+        let cursor = interval.start
+        while (cursor < interval.end) {
+            const bucket = getBucket(cursor)
+            const next = getNextBucket(bucket)
+            const segmentEnd = next < interval.end ? next : interval.end
+            const seconds = (segmentEnd.getTime() - cursor.getTime()) / 1000
+            perBucket.set(bucket.getTime(), (perBucket.get(bucket.getTime()) ?? 0) + seconds)
+            cursor = segmentEnd
+        }
+    }
+
+    return perBucket
+}
+
+/**
+ * Day a session is counted on: the day it ended, or started if it has no end
+ */
+export function getSessionDay(session: TimerSession): Date {
+    return startOfDay(session.endTime ?? session.startTime)
+}
+
+/**
+ * Whether a session is a finished pomodoro
+ */
+export function isCompletedWork(session: TimerSession): boolean {
+    return session.completed && session.type === SessionType.WORK
+}
+
+/**
+ * Per-day totals, oldest day first
+ */
+export function getDailyBreakdown(history: TimerSession[], now: Date = new Date()): DayStats[] {
+    const days = new Map<number, DayStats>()
+    const getDay = (time: number) => {
+        let stats = days.get(time)
+        if (!stats) {
+            stats = {
+                day: new Date(time),
+                workTime: 0,
+                breakTime: 0,
+                completedWorkSessions: 0,
+                internalInterruptions: 0,
+                externalInterruptions: 0
+            }
+            days.set(time, stats)
+        }
+        return stats
+    }
+
+    for (const session of history) {
+        const isWork = session.type === SessionType.WORK
+        splitSessionByDay(session, now).forEach((seconds, time) => {
+            const stats = getDay(time)
+            if (isWork) {
+                stats.workTime += seconds
+            } else {
+                stats.breakTime += seconds
+            }
+        })
+        splitIdleBreaksByDay(session).forEach((seconds, time) => {
+            getDay(time).breakTime += seconds
+        })
+
+        if (isCompletedWork(session)) {
+            getDay(getSessionDay(session).getTime()).completedWorkSessions++
+        }
+
+        for (const interruption of session.interruptions) {
+            const stats = getDay(startOfDay(interruption.loggedAt).getTime())
+            if (interruption.type === InterruptionType.INTERNAL) {
+                stats.internalInterruptions++
+            } else {
+                stats.externalInterruptions++
+            }
+        }
+    }
+
+    return Array.from(days.values()).sort((a, b) => a.day.getTime() - b.day.getTime())
+}
+
+/**
+ * Interruption totals per project, most interrupted first
+ * Work sessions are counted too, so projects can be compared by interruptions per session
+ */
+export function getProjectInterruptions(history: TimerSession[]): ProjectInterruptions[] {
+    const projects = new Map<string | undefined, ProjectInterruptions>()
+
+    for (const session of history) {
+        if (session.type !== SessionType.WORK && session.interruptions.length === 0) continue
+
+        const totals = projects.get(session.projectName) ?? {
+            projectName: session.projectName,
+            workSessions: 0,
+            internalInterruptions: 0,
+            externalInterruptions: 0
+        }
+        if (session.type === SessionType.WORK) {
+            totals.workSessions++
+        }
+        for (const interruption of session.interruptions) {
+            if (interruption.type === InterruptionType.INTERNAL) {
+                totals.internalInterruptions++
+            } else {
+                totals.externalInterruptions++
+            }
+        }
+        projects.set(session.projectName, totals)
+    }
+
+    const count = (totals: ProjectInterruptions) => totals.internalInterruptions + totals.externalInterruptions
+    return Array.from(projects.values()).sort((a, b) => count(b) - count(a))
+}
+
+/**
+ * Work time per hour of the day, in seconds, indexed 0 to 23 in local time
+ */
+export function getFocusByHour(history: TimerSession[], now: Date = new Date()): number[] {
+    const hours = new Array<number>(24).fill(0)
+
+    for (const session of history) {
+        if (session.type !== SessionType.WORK) continue
+
+        const perHour = splitIntervals(getActiveIntervals(session, now), startOfHour, (hour) => addHours(hour, 1))
+        perHour.forEach((seconds, time) => {
+            hours[new Date(time).getHours()] += seconds
+        })
+    }
+
+    return hours
+}
+
+/**
+ * Work time and completed pomodoros per project, most worked on first
+ */
+export function getProjectBreakdown(history: TimerSession[], now: Date = new Date()): ProjectFocus[] {
+    const projects = new Map<string | undefined, ProjectFocus>()
+
+    for (const session of history) {
+        if (session.type !== SessionType.WORK) continue
+
+        const totals = projects.get(session.projectName) ?? {
+            projectName: session.projectName,
+            workTime: 0,
+            completedWorkSessions: 0
+        }
+        for (const seconds of splitSessionByDay(session, now).values()) {
+            totals.workTime += seconds
+        }
+        if (isCompletedWork(session)) {
+            totals.completedWorkSessions++
+        }
+        projects.set(session.projectName, totals)
+    }
+
+    return Array.from(projects.values()).sort((a, b) => b.workTime - a.workTime)
+}
+
+/**
+ * Completed pomodoros per day for a calendar of whole weeks ending with the current one
+ * Each inner array is one week, starting on `weekStartsOn`
+ */
+export function getCalendarWeeks(history: TimerSession[], weeks: number, options: StatsOptions = {}): CalendarDay[][] {
+    const now = options.now ?? new Date()
+    const weekStartsOn = options.weekStartsOn ?? getLocaleWeekStart()
+    const today = startOfDay(now)
+
+    const counts = new Map<number, number>()
+    for (const session of history.filter(isCompletedWork)) {
+        const day = getSessionDay(session).getTime()
+        counts.set(day, (counts.get(day) ?? 0) + 1)
+    }
+
+    const firstWeek = subWeeks(startOfWeek(now, { weekStartsOn }), weeks - 1)
+    return Array.from({ length: weeks }, (_, week) =>
+        Array.from({ length: 7 }, (_, weekday) => {
+            const day = addDays(addWeeks(firstWeek, week), weekday)
+            return {
+                day,
+                completedWorkSessions: counts.get(day.getTime()) ?? 0,
+                future: day > today
+            }
+        })
+    )
+}
+
+/**
+ * Totals of the days from `from` up to and including `to`
+ */
+function sumDays(days: DayStats[], from: Date, to: Date): PeriodTotals {
+    const totals: PeriodTotals = { workTime: 0, completedWorkSessions: 0, interruptions: 0, activeDays: 0 }
+
+    for (const day of days) {
+        if (day.day < from || day.day > to) continue
+
+        totals.workTime += day.workTime
+        totals.completedWorkSessions += day.completedWorkSessions
+        totals.interruptions += day.internalInterruptions + day.externalInterruptions
+        if (day.completedWorkSessions > 0) {
+            totals.activeDays++
+        }
+    }
+
+    return totals
+}
+
+/**
+ * This week so far against the same days of last week, so a week in progress is not compared with a whole one
+ */
+export function compareWeeks(history: TimerSession[], options: StatsOptions = {}): WeekComparison {
+    const now = options.now ?? new Date()
+    const weekStartsOn = options.weekStartsOn ?? getLocaleWeekStart()
+    const days = getDailyBreakdown(history, now)
+    const weekStart = startOfWeek(now, { weekStartsOn })
+    const today = startOfDay(now)
+
+    return {
+        current: sumDays(days, weekStart, today),
+        previous: sumDays(days, subWeeks(weekStart, 1), subWeeks(today, 1))
+    }
+}
+
+/**
+ * Number of consecutive days with at least one completed work session
+ * Today only breaks the streak once it is over, so an empty morning keeps yesterday's streak
+ */
+export function calculateStreak(history: TimerSession[], now: Date = new Date()): number {
+    const activeDays = new Set(history.filter(isCompletedWork).map((session) => getSessionDay(session).getTime()))
+
+    let day = startOfDay(now)
+    if (!activeDays.has(day.getTime())) {
+        day = subDays(day, 1)
+    }
+
+    let streak = 0
+    while (activeDays.has(day.getTime())) {
+        streak++
+        day = subDays(day, 1)
+    }
+
+    return streak
+}
+
+/**
+ * Compute every statistic shown by the extension from the session history
+ */
+export function computeStats(history: TimerSession[], options: StatsOptions = {}): TimerStats {
+    const now = options.now ?? new Date()
+    const weekStartsOn = options.weekStartsOn ?? getLocaleWeekStart()
+    const today = startOfDay(now)
+
+    let totalWorkTime = 0
+    let totalBreakTime = 0
+    for (const { workTime, breakTime } of getDailyBreakdown(history, now)) {
+        totalWorkTime += workTime
+        totalBreakTime += breakTime
+    }
+
+    const completedWorkDays = history.filter(isCompletedWork).map(getSessionDay)
+    const interruptionDays = history.flatMap((session) =>
+        session.interruptions.map((interruption) => startOfDay(interruption.loggedAt))
+    )
+
+    return {
+        totalSessions: history.length,
+        completedSessions: history.filter((session) => session.completed).length,
+        totalWorkTime: Math.round(totalWorkTime),
+        totalBreakTime: Math.round(totalBreakTime),
+        streakCount: calculateStreak(history, now),
+        totalInterruptions: interruptionDays.length,
+        todaysInterruptions: interruptionDays.filter((day) => day.getTime() === today.getTime()).length,
+        todaysSessions: completedWorkDays.filter((day) => day.getTime() === today.getTime()).length,
+        weekSessions: completedWorkDays.filter((day) => isSameWeek(day, now, { weekStartsOn })).length,
+        monthSessions: completedWorkDays.filter((day) => isSameMonth(day, now)).length
+    }
+}
@@ -0,0 +1,69 @@
+/**
+ * Time entries for the time-tracking API and the HTTP calls that upload them
+ */
+
+import { getPreferenceValues } from "@raycast/api"
+import { SyncSettings, SyncStatus, TimeEntry } from "../types/sync"
+import { TimerSession } from "../types/timer"
+import { postJson } from "./http"
+import { getElapsedSeconds } from "./timer-engine"
+import { getSessionLabel } from "./timer-format"
+
+/**
+ * Time tracker settings from the preferences, unset while no URL is configured
+ */
+export function getSyncSettings(): SyncSettings | undefined {
+    const preferences = getPreferenceValues<Preferences>()
+    const baseUrl = (preferences.syncBaseUrl ?? "").trim().replace(/\/+$/, "")
+    if (!baseUrl) return undefined
+
+    const apiToken = (preferences.syncApiToken ?? "").trim()
+    return { baseUrl, apiToken: apiToken || undefined }
+}
+
+/**
+ * Map a completed session to a time entry
+ */
+export function toTimeEntry(session: TimerSession): TimeEntry {
+    const end = session.endTime ?? new Date()
+    return {
+        description: session.taskName || getSessionLabel(session),
+        project: session.projectName,
+        start: session.startTime.toISOString(),
+        end: end.toISOString(),
+        duration: getElapsedSeconds(session, end),
+        tags: ["pomodoro"]
+    }
+}
+
+/**
+ * POST a time entry to `{baseUrl}/time-entries`
+ * Resolves to the id the time tracker gave the entry, when it returns one
+ */
+export async function postTimeEntry(
+    settings: SyncSettings,
+    entry: TimeEntry,
+    idempotencyKey: string
+): Promise<string | undefined> {
+    const response = await postJson(`${settings.baseUrl}/time-entries`, JSON.stringify(entry), {
+        "Idempotency-Key": idempotencyKey,
+        ...(settings.apiToken ? { Authorization: `Bearer ${settings.apiToken}` } : {})
+    })
+
+    const created = (await response.json().catch(() => undefined)) as { id?: string | number } | undefined
+    return created?.id === undefined ? undefined : String(created.id)
+}
+
+/**
+ * Human-readable name of a sync status
+ */
+export function getSyncStatusLabel(status: SyncStatus): string {
+    switch (status) {
+        case SyncStatus.PENDING:
+            return "Pending"
+        case SyncStatus.FAILED:
+            return "Failed"
+        case SyncStatus.SYNCED:
+            return "Synced"
+    }
+}
@@ -0,0 +1,128 @@
+/**
+ * Wall-clock timer engine
+ * Remaining time is always derived from the session start and its pauses, never counted down,
+ * so a session keeps running correctly while no command is open
+ */
+
+import { PauseInterval, TimerSession, UndoSnapshot } from "../types/timer"
+
+export const UNDO_WINDOW = 30 * 1000 // in milliseconds
+
+/**
+ * Total time spent paused in milliseconds, counting an open pause up to `now`
+ */
+export function getPausedMilliseconds(session: TimerSession, now: Date = new Date()): number {
+    return session.pauses.reduce((total, pause) => {
+        const end = pause.end ?? now
+        return total + Math.max(0, end.getTime() - pause.start.getTime())
+    }, 0)
+}
+
+/**
+ * Whether the session currently has an open pause
+ */
+export function isSessionPaused(session: TimerSession): boolean {
+    const lastPause = session.pauses[session.pauses.length - 1]
+    return lastPause !== undefined && lastPause.end === undefined
+}
+
+/**
+ * Active (non-paused) time of the session in milliseconds
+ */
+export function getElapsedMilliseconds(session: TimerSession, now: Date = new Date()): number {
+    const end = session.endTime ?? now
+    const elapsed = end.getTime() - session.startTime.getTime() - getPausedMilliseconds(session, end)
+    return Math.max(0, elapsed)
+}
+
+/**
+ * Active time of the session in whole seconds
+ */
+export function getElapsedSeconds(session: TimerSession, now: Date = new Date()): number {
+    return Math.floor(getElapsedMilliseconds(session, now) / 1000)
+}
+
+/**
+ * Seconds left before the session reaches its duration
+ */
+export function getTimeRemaining(session: TimerSession, now: Date = new Date()): number {
+    const remaining = session.duration * 1000 - getElapsedMilliseconds(session, now)
+    return Math.max(0, Math.ceil(remaining / 1000))
+}
+
+/**
+ * Moment the session reaches (or reached) its duration, assuming it is not paused again
+ */
+export function getExpectedEndTime(session: TimerSession, now: Date = new Date()): Date {
+    return new Date(session.startTime.getTime() + session.duration * 1000 + getPausedMilliseconds(session, now))
+}
+
+/**
+ * Whether a running session has used up its duration
+ */
+export function isSessionFinished(session: TimerSession, now: Date = new Date()): boolean {
+    return !isSessionPaused(session) && getElapsedMilliseconds(session, now) >= session.duration * 1000
+}
+
+/**
+ * The open pause of a session if it was started automatically while we were away
+ */
+export function getOpenIdlePause(session: TimerSession): PauseInterval | undefined {
+    const lastPause = session.pauses[session.pauses.length - 1]
+    return lastPause && !lastPause.end && lastPause.idle ? lastPause : undefined
+}
+
+/**
+ * Close the open pause of a session, if any
+ */
+export function closeOpenPause(session: TimerSession, at: Date): TimerSession {
+    if (!isSessionPaused(session)) {
+        return session
+    }
+
+    return {
+        ...session,
+        pauses: session.pauses.map((pause) => (pause.end ? pause : { ...pause, end: at }))
+    }
+}
+
+/**
+ * Whether the last stop, reset or skip can still be undone
+ * Only until the undo window passes, and as long as no other session was started since
+ */
+export function isUndoAvailable(
+    undo: UndoSnapshot,
+    currentSession: TimerSession | null,
+    now: Date = new Date()
+): boolean {
+    return now.getTime() - undo.takenAt.getTime() < UNDO_WINDOW && currentSession?.id === undo.resultSessionId
+}
+
+/**
+ * Periods during which the session was actually running, with pauses cut out
+ */
+export function getActiveIntervals(session: TimerSession, now: Date = new Date()): Array<{ start: Date; end: Date }> {
+    const sessionEnd = session.endTime ?? now
+    const intervals: Array<{ start: Date; end: Date }> = []
+    let cursor = session.startTime
+
+    const pauses = [...session.pauses].sort((a, b) => a.start.getTime() - b.start.getTime())
+    for (const pause of pauses) {
+        if (pause.start > cursor) {
+            intervals.push({ start: cursor, end: pause.start < sessionEnd ? pause.start : sessionEnd })
+        }
+        const pauseEnd = pause.end ?? sessionEnd
+        if (pauseEnd > cursor) {
+            cursor = pauseEnd
+        }
+        if (cursor >= sessionEnd) {
+            break
+        }
+    }
+
+    if (cursor < sessionEnd) {
+        intervals.push({ start: cursor, end: sessionEnd })
+    }
+
+    return intervals.filter((interval) => interval.end > interval.start)
+}
@@ -0,0 +1,152 @@
+/**
+ * Display helpers shared by the timer commands
+ */
+
+import { Color, Icon, Image } from "@raycast/api"
+import {
+    IdleResolution,
+    Interruption,
+    InterruptionType,
+    SessionType,
+    TimerSession,
+    TimerState,
+    UndoableAction
+} from "../types/timer"
+
+/**
+ * Format seconds as a countdown (mm:ss, or h:mm:ss past an hour)
+ */
+export function formatTime(seconds: number): string {
+    const total = Math.max(0, Math.round(seconds))
+    const hours = Math.floor(total / 3600)
+    const minutes = Math.floor((total % 3600) / 60)
+    const secs = total % 60
+    const pad = (value: number) => value.toString().padStart(2, "0")
+
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${pad(minutes)}:${pad(secs)}`
+}
+
+/**
+ * Format seconds as a short human-readable duration, e.g. "1h 25m"
+ */
+export function formatDuration(seconds: number): string {
+    const totalMinutes = Math.round(seconds / 60)
+    if (totalMinutes < 1) {
+        return `${Math.max(0, Math.round(seconds))}s`
+    }
+
+    const hours = Math.floor(totalMinutes / 60)
+    const minutes = totalMinutes % 60
+    if (hours === 0) return `${minutes}m`
+    return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`
+}
+
+/**
+ * Format a moment as a local clock time, e.g. "14:25"
+ */
+export function formatClockTime(date: Date): string {
+    return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+}
+
+const SESSION_TYPE_LABELS: Record<SessionType, string> = {
+    [SessionType.WORK]: "Work",
+    [SessionType.SHORT_BREAK]: "Short Break",
+    [SessionType.LONG_BREAK]: "Long Break"
+}
+
+/**
+ * Human-readable name of a session type
+ */
+export function getSessionTypeLabel(type: SessionType): string {
+    return SESSION_TYPE_LABELS[type]
+}
+
+/**
+ * Name of a session: its sequence segment when it has one, otherwise its type
+ */
+export function getSessionLabel(session: Pick<TimerSession, "type" | "segment">): string {
+    return session.segment?.name ?? getSessionTypeLabel(session.type)
+}
+
+/**
+ * Tinted icon for a session type
+ */
+export function getSessionTypeIcon(type: SessionType): Image.ImageLike {
+    switch (type) {
+        case SessionType.WORK:
+            return { source: Icon.Hammer, tintColor: Color.Red }
+        case SessionType.SHORT_BREAK:
+            return { source: Icon.Mug, tintColor: Color.Green }
+        case SessionType.LONG_BREAK:
+            return { source: Icon.Leaf, tintColor: Color.Blue }
+    }
+}
+
+/**
+ * One-line description of an interruption, e.g. "14:25 External: question from Sam"
+ */
+export function formatInterruption(interruption: Interruption): string {
+    const label = `${formatClockTime(interruption.loggedAt)} ${getInterruptionTypeLabel(interruption.type)}`
+    return interruption.note ? `${label}: ${interruption.note}` : label
+}
+
+/**
+ * Names of the focus ratings 1 to 5
+ */
+export const FOCUS_RATINGS = ["Distracted", "Scattered", "Steady", "Focused", "Deep Focus"]
+
+/**
+ * Focus rating as stars, e.g. "★★★☆☆"
+ */
+export function formatFocusRating(rating: number): string {
+    return "★".repeat(rating) + "☆".repeat(FOCUS_RATINGS.length - rating)
+}
+
+/**
+ * Human-readable name of an interruption type
+ */
+export function getInterruptionTypeLabel(type: InterruptionType): string {
+    return type === InterruptionType.INTERNAL ? "Internal" : "External"
+}
+
+/**
+ * Action name of an idle resolution, e.g. "Count as Break"
+ */
+export function getIdleResolutionLabel(resolution: IdleResolution): string {
+    switch (resolution) {
+        case IdleResolution.DISCARD:
+            return "Discard Idle Time"
+        case IdleResolution.BREAK:
+            return "Count as Break"
+        case IdleResolution.WORK:
+            return "Keep as Work"
+    }
+}
+
+/**
+ * Action name for undoing a stop, reset or skip, e.g. "Undo Stop"
+ */
+export function getUndoLabel(action: UndoableAction): string {
+    switch (action) {
+        case "stopTimer":
+            return "Undo Stop"
+        case "resetTimer":
+            return "Undo Reset"
+        case "skipSession":
+            return "Undo Skip"
+    }
+}
+
+/**
+ * Human-readable name of a timer state
+ */
+export function getTimerStateLabel(state: TimerState): string {
+    switch (state) {
+        case TimerState.IDLE:
+            return "Idle"
+        case TimerState.RUNNING:
+            return "Running"
+        case TimerState.PAUSED:
+            return "Paused"
+    }
+}
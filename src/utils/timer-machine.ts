@@ -0,0 +1,166 @@
+/**
+ * Timer state machine: which `TimerActions` are allowed in which state, and where they may lead
+ * The store checks every session action against this table before running it
+ */
+
+import { environment, showHUD, showToast, Toast } from "@raycast/api"
+import { TimerAction, TimerState } from "../types/timer"
+import { getTimerStateLabel } from "./timer-format"
+
+export interface TransitionRule {
+    from: TimerState[] // states the action may be called in
+    to?: TimerState[] // states the action may leave the timer in, unset when it never changes the state
+    verb?: string // what the action does, for error messages, e.g. "pause the timer"
+}
+
+const ANY_STATE = Object.values(TimerState)
+const ACTIVE = [TimerState.RUNNING, TimerState.PAUSED]
+
+// Actions that only touch settings, labels or history work in every state and never change it
+const UNRESTRICTED: TransitionRule = { from: ANY_STATE }
+
+export const TRANSITIONS: Record<TimerAction, TransitionRule> = {
+    startTimer: { from: ANY_STATE, to: [TimerState.RUNNING] },
+    startSegment: { from: ANY_STATE, to: [TimerState.RUNNING] },
+    pauseTimer: { from: [TimerState.RUNNING], to: [TimerState.PAUSED], verb: "pause the timer" },
+    resumeTimer: { from: [TimerState.PAUSED], to: [TimerState.RUNNING], verb: "resume the timer" },
+    pauseForIdle: { from: [TimerState.RUNNING], to: [TimerState.PAUSED], verb: "pause for idle time" },
+    // Idle time kept as work may finish the session, and the next one may start on its own
+    resolveIdle: {
+        from: [TimerState.PAUSED],
+        to: [TimerState.RUNNING, TimerState.IDLE],
+        verb: "settle idle time"
+    },
+    stopTimer: { from: ACTIVE, to: [TimerState.IDLE], verb: "stop the session" },
+    resetTimer: { from: ANY_STATE, to: [TimerState.IDLE] },
+    skipSession: { from: ACTIVE, to: [TimerState.IDLE, TimerState.RUNNING], verb: "skip the session" },
+    undoLastAction: { from: ANY_STATE, to: ANY_STATE },
+    completeSession: { from: ACTIVE, to: [TimerState.IDLE, TimerState.RUNNING], verb: "complete the session" },
+    logInterruption: { from: ACTIVE, verb: "log an interruption" },
+    addTaskToSession: { from: ACTIVE, verb: "set the task" },
+    assignTaskToSession: { from: ACTIVE, verb: "set the task" },
+    syncTimer: { from: ANY_STATE, to: ANY_STATE },
+    updateConfig: UNRESTRICTED,
+    saveProfile: UNRESTRICTED,
+    deleteProfile: UNRESTRICTED,
+    activateProfile: UNRESTRICTED,
+    saveSequence: UNRESTRICTED,
+    deleteSequence: UNRESTRICTED,
+    activateSequence: UNRESTRICTED,
+    getNextSegmentIndex: UNRESTRICTED,
+    relabelSessions: UNRESTRICTED,
+    getNextSessionType: UNRESTRICTED,
+    updateHistorySession: UNRESTRICTED,
+    deleteHistorySession: UNRESTRICTED,
+    importSessions: UNRESTRICTED,
+    replaceHistory: UNRESTRICTED,
+    refreshStats: UNRESTRICTED
+}
+
+/**
+ * Base class of the errors a timer action can be rejected with
+ */
+export class TimerError extends Error {
+    constructor(
+        message: string,
+        readonly action: TimerAction
+    ) {
+        super(message)
+        this.name = "TimerError"
+    }
+}
+
+/**
+ * The action is not allowed in the current timer state, e.g. resuming while nothing runs,
+ * or it would leave the timer in a state its rule does not allow
+ */
+export class InvalidTransitionError extends TimerError {
+    constructor(
+        action: TimerAction,
+        readonly state: TimerState,
+        readonly target?: TimerState // set when the action was allowed to run but ended in the wrong state
+    ) {
+        const verb = TRANSITIONS[action].verb ?? action
+        super(
+            target === undefined
+                ? `Cannot ${verb} while the timer is ${getTimerStateLabel(state).toLowerCase()}`
+                : `Cannot ${verb}: it would leave the timer ${getTimerStateLabel(target).toLowerCase()}`,
+            action
+        )
+        this.name = "InvalidTransitionError"
+    }
+}
+
+/**
+ * The action refers to a sequence segment that does not exist
+ */
+export class UnknownSegmentError extends TimerError {
+    constructor(readonly index: number) {
+        super(`The active sequence has no segment ${index + 1}`, "startSegment")
+        this.name = "UnknownSegmentError"
+    }
+}
+
+/**
+ * The last stop, reset or skip can no longer be undone, or there was none
+ */
+export class NothingToUndoError extends TimerError {
+    constructor() {
+        super("There is nothing to undo anymore", "undoLastAction")
+        this.name = "NothingToUndoError"
+    }
+}
+
+/**
+ * Whether an action may be called in a state
+ */
+export function canTransition(action: TimerAction, state: TimerState): boolean {
+    return TRANSITIONS[action].from.includes(state)
+}
+
+/**
+ * Reject an action that the current state does not allow
+ */
+export function assertTransition(action: TimerAction, state: TimerState): void {
+    if (!canTransition(action, state)) {
+        throw new InvalidTransitionError(action, state)
+    }
+}
+
+/**
+ * Whether an action ended in a state its rule allows
+ */
+export function isExpectedTarget(action: TimerAction, from: TimerState, to: TimerState): boolean {
+    const { to: targets } = TRANSITIONS[action]
+    return targets ? targets.includes(to) : to === from
+}
+
+/**
+ * Reject an action that ended in a state its rule does not allow
+ */
+export function assertTarget(action: TimerAction, from: TimerState, to: TimerState): void {
+    if (!isExpectedTarget(action, from, to)) {
+        throw new InvalidTransitionError(action, from, to)
+    }
+}
+
+/**
+ * Run a timer action from a command, reporting a rejected action instead of throwing
+ * Resolves to whether the action went through
+ */
+export async function runTimerAction(action: () => void): Promise<boolean> {
+    try {
+        action()
+        return true
+    } catch (error) {
+        if (!(error instanceof TimerError)) throw error
+
+        // A HUD would close the main window, so views get a toast instead
+        if (environment.commandMode === "view") {
+            await showToast({ style: Toast.Style.Failure, title: error.message })
+        } else {
+            await showHUD(`❌ ${error.message}`)
+        }
+        return false
+    }
+}
@@ -0,0 +1,88 @@
+/**
+ * Signed JSON payloads of session events for outgoing webhooks
+ */
+
+import { createHmac, randomBytes } from "crypto"
+import { SessionEvent, TimerSession, TimerTransition } from "../types/timer"
+import { DeliveryStatus, Webhook, WebhookDelivery, WebhookPayload } from "../types/webhook"
+import { postJson } from "./http"
+
+export const DEFAULT_WEBHOOK_EVENTS = [SessionEvent.START, SessionEvent.COMPLETE]
+
+export const SIGNATURE_DESCRIPTION = [
+    "X-Pomodoro-Event  the session event, e.g. complete",
+    "X-Pomodoro-Delivery  the delivery id, the same for every attempt",
+    "X-Pomodoro-Timestamp  Unix time of the attempt, in seconds",
+    'X-Pomodoro-Signature  "sha256=" and the hex HMAC-SHA256 of "{timestamp}.{body}", keyed with the secret'
+].join("\n")
+
+/**
+ * A random secret for a new webhook
+ */
+export function generateWebhookSecret(): string {
+    return randomBytes(32).toString("hex")
+}
+
+/**
+ * Whether a webhook wants an event
+ */
+export function matchesWebhook(webhook: Webhook, event: SessionEvent): boolean {
+    return webhook.enabled && webhook.events.includes(event)
+}
+
+/**
+ * Describe a session event and the timer action that caused it
+ */
+export function createPayload(
+    id: string,
+    event: SessionEvent,
+    session: TimerSession,
+    occurredAt: Date,
+    transition?: TimerTransition
+): WebhookPayload {
+    return {
+        id,
+        event,
+        occurredAt: occurredAt.toISOString(),
+        transition: transition ? { action: transition.action, from: transition.from, to: transition.to } : null,
+        session
+    }
+}
+
+/**
+ * Signature of a request body, as sent in `X-Pomodoro-Signature`
+ * Signing the timestamp too lets receivers reject replayed requests
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+    return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`
+}
+
+/**
+ * POST a delivery to its webhook, signed with the webhook's secret
+ * Resolves to the HTTP status of the response
+ */
+export async function sendDelivery(delivery: WebhookDelivery, secret: string): Promise<number> {
+    const timestamp = Math.floor(Date.now() / 1000)
+    const response = await postJson(delivery.url, delivery.body, {
+        "User-Agent": "Pomodoro-Webhooks",
+        "X-Pomodoro-Event": delivery.event,
+        "X-Pomodoro-Delivery": delivery.id,
+        "X-Pomodoro-Timestamp": timestamp.toString(),
+        "X-Pomodoro-Signature": signPayload(secret, timestamp, delivery.body)
+    })
+    return response.status
+}
+
+/**
+ * Human-readable name of a delivery status
+ */
+export function getDeliveryStatusLabel(status: DeliveryStatus): string {
+    switch (status) {
+        case DeliveryStatus.PENDING:
+            return "Pending"
+        case DeliveryStatus.FAILED:
+            return "Failed"
+        case DeliveryStatus.DELIVERED:
+            return "Delivered"
+    }
+}
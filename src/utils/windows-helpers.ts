@@ -4,8 +4,11 @@
  */
 
 import { exec, execFile } from "child_process"
+import { existsSync } from "fs"
+import { mkdir, rename, rm } from "fs/promises"
+import { join } from "path"
 import { promisify } from "util"
-import { showToast, Toast } from "@raycast/api"
+import { environment, showToast, Toast } from "@raycast/api"
 
 const execAsync = promisify(exec)
 const execFileAsync = promisify(execFile)
@@ -48,19 +51,19 @@ export function parseCustomCommand(
     command: string, 
     replacements: Record<string, string>
 ): { executable: string; args: string[] } {
-    const commandParts = command.match(/"[^"]+"|\\S+/g) || []
+    const [first, ...rest] = command.match(/"[^"]+"|\S+/g) || []
     
-    if (commandParts.length === 0) {
+    if (!first) {
         throw new Error("Invalid command format")
     }
     
-    const executable = commandParts[0].replace(/"/g, "")
-    const args = commandParts.slice(1).map(arg => {
+    const executable = first.replace(/"/g, "")
+    const args = rest.map(arg => {
         let processedArg = arg.replace(/"/g, "")
         
-        // Replace placeholders
+        // Replace every occurrence of each placeholder
         Object.entries(replacements).forEach(([placeholder, value]) => {
-            processedArg = processedArg.replace(placeholder, value)
+            processedArg = processedArg.split(placeholder).join(value)
         })
         
         return processedArg
@@ -71,13 +74,15 @@ export function parseCustomCommand(
 
 /**
  * Execute custom command with placeholder substitution
+ * The command is killed when it runs longer than the optional timeout in milliseconds
  */
 export async function executeCustomCommand(
     command: string,
-    replacements: Record<string, string>
+    replacements: Record<string, string>,
+    options: { timeout?: number } = {}
 ): Promise<string> {
     const { executable, args } = parseCustomCommand(command, replacements)
-    const { stdout } = await execFileAsync(executable, args)
+    const { stdout } = await execFileAsync(executable, args, { timeout: options.timeout })
     return stdout.trim()
 }
 
@@ -131,19 +136,23 @@ export async function processItemsWithRecovery<T>(
 
 /**
  * Show toast notification based on processing results
+ * Items counted as skipped were handled successfully but intentionally left out
  */
 export async function showProcessingResults(results: {
     successful: number
     failed: number
     errors: string[]
+    skipped?: number
 }, operation: string): Promise<void> {
+    const skipped = results.skipped ? `, ${results.skipped} skipped` : ""
+
     if (results.failed === 0) {
         await showToast({
             style: Toast.Style.Success,
             title: `${operation} completed`,
-            message: `Successfully processed ${results.successful} items`
+            message: `Successfully processed ${results.successful} items${skipped}`
         })
-    } else if (results.successful === 0) {
+    } else if (results.successful === 0 && !results.skipped) {
         await showToast({
             style: Toast.Style.Failure,
             title: `${operation} failed`,
@@ -153,7 +162,7 @@ export async function showProcessingResults(results: {
         await showToast({
             style: Toast.Style.Failure,
             title: `${operation} partially completed`,
-            message: `${results.successful} succeeded, ${results.failed} failed`
+            message: `${results.successful} succeeded${skipped}, ${results.failed} failed`
         })
     }
 }
@@ -192,6 +201,83 @@ export async function getProcessList(): Promise<Array<{
     }))
 }
 
+const IDLE_TIME_SOURCE = `
+using System;
+using System.Runtime.InteropServices;
+public static class IdleTime {
+    [StructLayout(LayoutKind.Sequential)]
+    struct LastInputInfo { public uint Size; public uint Time; }
+    [DllImport("user32.dll")]
+    static extern bool GetLastInputInfo(ref LastInputInfo info);
+    public static uint Seconds() {
+        var info = new LastInputInfo();
+        info.Size = (uint)Marshal.SizeOf(info);
+        GetLastInputInfo(ref info);
+        return ((uint)Environment.TickCount - info.Time) / 1000;
+    }
+}
+`
+// Bump the version whenever the source changes, so a stale assembly is not loaded
+const IDLE_TIME_ASSEMBLY = "IdleTime-v1.dll"
+
+let idleAssembly: Promise<string> | undefined
+
+function quotePowerShell(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`
+}
+
+async function runPowerShell(script: string): Promise<string> {
+    const { stdout } = await execFileAsync("powershell.exe", ["-NoProfile", "-NonInteractive", "-Command", script], {
+        windowsHide: true
+    })
+    return stdout.trim()
+}
+
+/**
+ * Compile the idle time helper into the support folder the first time it is needed
+ * Later calls, also from other commands, only load the compiled assembly
+ */
+function getIdleAssembly(): Promise<string> {
+    if (!idleAssembly) {
+        const path = join(environment.supportPath, IDLE_TIME_ASSEMBLY)
+        idleAssembly = (async () => {
+            if (!existsSync(path)) {
+                // Compile under a temporary name so another command never loads a half-written file
+                const partial = join(environment.supportPath, `${process.pid}-${IDLE_TIME_ASSEMBLY}`)
+                await mkdir(environment.supportPath, { recursive: true })
+                await runPowerShell(
+                    `Add-Type -OutputAssembly ${quotePowerShell(partial)} -OutputType Library -TypeDefinition @'${IDLE_TIME_SOURCE}'@`
+                )
+                await rename(partial, path).catch(async (error) => {
+                    // Another command finished compiling first
+                    await rm(partial, { force: true })
+                    if (!existsSync(path)) throw error
+                })
+            }
+            return path
+        })()
+        // Try again on the next call if compiling failed
+        idleAssembly.catch(() => {
+            idleAssembly = undefined
+        })
+    }
+    return idleAssembly
+}
+
+/**
+ * Seconds since the last keyboard or mouse input of the signed-in user
+ */
+export async function getIdleSeconds(): Promise<number> {
+    const assembly = await getIdleAssembly()
+    const output = await runPowerShell(`Add-Type -Path ${quotePowerShell(assembly)}; [IdleTime]::Seconds()`)
+
+    const seconds = parseInt(output, 10)
+    if (isNaN(seconds)) {
+        throw new Error("Could not read the idle time")
+    }
+    return seconds
+}
+
 /**
  * Search files using Everything CLI (if available)
  */
@@ -222,8 +308,11 @@ export async function openInExplorer(path: string): Promise<void> {
  * Get Windows environment paths
  */
 export function getWindowsPaths() {
+    const userProfile = process.env.USERPROFILE || "C:\\Users\\Default"
     return {
-        userProfile: process.env.USERPROFILE || "C:\\Users\\Default",
+        userProfile,
+        documents: `${userProfile}\\Documents`,
+        desktop: `${userProfile}\\Desktop`,
         programFiles: process.env.PROGRAMFILES || "C:\\Program Files",
         programFilesX86: process.env["PROGRAMFILES(X86)"] || "C:\\Program Files (x86)",
         systemRoot: process.env.SYSTEMROOT || "C:\\Windows",